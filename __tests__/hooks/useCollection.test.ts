@@ -2,6 +2,7 @@ import { renderHook, act } from '@testing-library/react-hooks/dom';
 import { useCollection } from '../../src/hooks/useCollection';
 import { useCollectionQuery } from '../../src/hooks/useCollectionQuery';
 import clientCache from '../../src/utils/clientCache';
+import { MockEventSource } from '../mocks/mockEventSource';
 
 // Mock dependencies
 jest.mock('../../src/hooks/useCollectionQuery');
@@ -226,4 +227,107 @@ describe('useCollection', () => {
     // Verify refetch was called
     expect(mockRefetch).toHaveBeenCalled();
   });
+
+  describe('live', () => {
+    beforeEach(() => {
+      MockEventSource.reset();
+      (window as any).EventSource = MockEventSource;
+    });
+
+    afterEach(() => {
+      delete (window as any).EventSource;
+    });
+
+    it('should only subscribe when live is set', () => {
+      renderHook(() => useCollection('/api/items', []));
+      expect(MockEventSource.instances).toHaveLength(0);
+
+      renderHook(() => useCollection('/api/items', [], { live: true }));
+      expect(MockEventSource.latest.url).toBe('/api/items/subscribe');
+    });
+
+    it('should apply inserts, updates and deletes to the data and cache', () => {
+      const { result } = renderHook(() => useCollection('/api/items', [], { live: true }));
+
+      act(() => {
+        MockEventSource.latest.emit({ id: '3', operation: 'insert', data: { id: '3', title: 'Item 3' } });
+        MockEventSource.latest.emit({ id: '1', operation: 'update', data: { id: '1', title: 'Edited' } });
+        MockEventSource.latest.emit({ id: '2', operation: 'delete', data: null });
+      });
+
+      const expected = [
+        { id: '1', title: 'Edited' },
+        { id: '3', title: 'Item 3' },
+      ];
+      expect(result.current.data).toEqual(expected);
+      expect(clientCache.set).toHaveBeenLastCalledWith('collection:items', expected, 5 * 60 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reload the list after a reset event', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ success: true, data: [] }),
+      });
+      const { result, waitForNextUpdate } = renderHook(() =>
+        useCollection('/api/items', [], { live: true })
+      );
+
+      act(() => {
+        MockEventSource.latest.emit({}, { event: 'reset' });
+      });
+      await waitForNextUpdate();
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/items', { method: 'POST' });
+      expect(result.current.data).toEqual([]);
+    });
+
+    it('should reload filtered lists instead of applying changes', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ success: true, data: [mockItems[0]] }),
+      });
+      const { result, waitForNextUpdate } = renderHook(() =>
+        useCollection('/api/items?status=published', [], { live: true })
+      );
+      expect(MockEventSource.latest.url).toBe('/api/items/subscribe');
+
+      act(() => {
+        MockEventSource.latest.emit({ id: '3', operation: 'insert', data: { id: '3', title: 'Draft' } });
+      });
+      await waitForNextUpdate();
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/items?status=published', { method: 'POST' });
+      expect(result.current.data).toEqual([mockItems[0]]);
+    });
+
+    it('should reload the first page of a paginated list instead of applying changes', async () => {
+      (useCollectionQuery as jest.Mock).mockReturnValue({
+        data: { success: true, data: mockItems, cached: false, nextCursor: 'abc', hasMore: true },
+        error: null,
+        loading: false,
+        refetch: jest.fn()
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          success: true,
+          data: [mockItems[1]],
+          nextCursor: 'def',
+          hasMore: true,
+        }),
+      });
+      const { result, waitForNextUpdate } = renderHook(() =>
+        useCollection('/api/items', [], { live: true })
+      );
+
+      act(() => {
+        MockEventSource.latest.emit({ id: '3', operation: 'insert', data: { id: '3', title: 'Item 3' } });
+      });
+      await waitForNextUpdate();
+
+      expect(mockFetch).toHaveBeenCalledWith('/api/items', { method: 'POST' });
+      expect(result.current.data).toEqual([mockItems[1]]);
+    });
+  });
 });
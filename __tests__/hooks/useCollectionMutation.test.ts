@@ -1,5 +1,6 @@
 import { renderHook, act } from '@testing-library/react-hooks/dom';
 import { useCollectionMutation } from '../../src/hooks/useCollectionMutation';
+import { CollectionRequestError } from '../../src/utils/requestError';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -120,4 +121,31 @@ describe('useCollectionMutation', () => {
     expect(mockFetch).toHaveBeenNthCalledWith(1, 'http://localhost/api/test', expect.any(Object));
     expect(mockFetch).toHaveBeenNthCalledWith(2, 'http://localhost/api/test', expect.any(Object));
   });
+
+  it('should expose validation issues from a 400 response', async () => {
+    const issues = [{ path: ['name'], code: 'invalid_type', message: 'Required' }];
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: jest.fn().mockResolvedValueOnce({
+        success: false,
+        error: 'Validation failed',
+        errors: issues,
+      })
+    });
+
+    const { result } = renderHook(() => 
+      useCollectionMutation('http://localhost/api/test')
+    );
+
+    await act(async () => {
+      await expect(result.current.mutate({})).rejects.toThrow('HTTP error! Status: 400');
+    });
+
+    const error = result.current.error as CollectionRequestError;
+    expect(error).toBeInstanceOf(CollectionRequestError);
+    expect(error.status).toBe(400);
+    expect(error.errors).toEqual(issues);
+    expect(result.current.loading).toBe(false);
+  });
 });
@@ -1,9 +1,11 @@
 import { renderHook } from '@testing-library/react-hooks/dom';
 import { useCollectionQuery } from '../../src/hooks/useCollectionQuery';
+import clientCache from '../../src/utils/clientCache';
 
 describe('useCollectionQuery', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    clientCache.clear();
   });
 
   it('should fetch data from the provided URL', async () => {
@@ -141,4 +143,41 @@ describe('useCollectionQuery', () => {
     expect(global.fetch).toHaveBeenCalledTimes(2);
     expect(global.fetch).toHaveBeenCalledWith('http://localhost/api/test');
   });
+
+  it('should revalidate with If-None-Match and reuse data on 304', async () => {
+    const mockData = { success: true, data: [{ id: 1, name: 'Test' }] };
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ ETag: '"abc"' }),
+        json: jest.fn().mockResolvedValueOnce(mockData)
+      })
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 304,
+        headers: new Headers({ ETag: '"abc"' }),
+        json: jest.fn()
+      });
+
+    // Render the hook
+    const { result, waitForNextUpdate } = renderHook(() => 
+      useCollectionQuery('http://localhost/api/test')
+    );
+
+    // Wait for the initial fetch to complete
+    await waitForNextUpdate();
+    expect(result.current.data).toEqual(mockData);
+
+    // Refetch, which should send the stored ETag
+    result.current.refetch();
+    await waitForNextUpdate();
+
+    expect(global.fetch).toHaveBeenLastCalledWith('http://localhost/api/test', {
+      headers: { 'If-None-Match': '"abc"' },
+    });
+    expect(result.current.data).toEqual(mockData);
+    expect(result.current.error).toBeNull();
+  });
 });
@@ -0,0 +1,113 @@
+import { renderHook, act } from '@testing-library/react-hooks/dom';
+import {
+  getSubscribeUrl,
+  useCollectionSubscription,
+} from '../../src/hooks/useCollectionSubscription';
+import { MockEventSource } from '../mocks/mockEventSource';
+
+describe('useCollectionSubscription', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    MockEventSource.reset();
+    (window as any).EventSource = MockEventSource;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (window as any).EventSource;
+  });
+
+  it('should derive the change feed URL from the collection endpoint', () => {
+    expect(getSubscribeUrl('/api/posts')).toBe('/api/posts/subscribe');
+    expect(getSubscribeUrl('/api/posts/?status=draft')).toBe('/api/posts/subscribe');
+  });
+
+  it('should not connect without a URL', () => {
+    renderHook(() => useCollectionSubscription(null));
+
+    expect(MockEventSource.instances).toHaveLength(0);
+  });
+
+  it('should pass changes to onChange', () => {
+    const onChange = jest.fn();
+    const { result } = renderHook(() =>
+      useCollectionSubscription('/api/posts/subscribe', { onChange })
+    );
+
+    act(() => {
+      MockEventSource.latest.open();
+      MockEventSource.latest.emit(
+        { id: '1', operation: 'update', data: { id: '1', title: 'Edited' } },
+        { id: 'w1.1' }
+      );
+    });
+
+    expect(result.current.connected).toBe(true);
+    expect(onChange).toHaveBeenCalledWith({
+      id: '1',
+      operation: 'update',
+      data: { id: '1', title: 'Edited' },
+    });
+  });
+
+  it('should reconnect with backoff and resume after the last event', () => {
+    const { result } = renderHook(() => useCollectionSubscription('/api/posts/subscribe'));
+
+    act(() => {
+      MockEventSource.latest.open();
+      MockEventSource.latest.emit({ id: '1', operation: 'delete', data: null }, { id: 'w1.7' });
+      MockEventSource.latest.fail();
+    });
+
+    expect(result.current.connected).toBe(false);
+    expect(result.current.error).toBeInstanceOf(Error);
+    expect(MockEventSource.instances[0].closed).toBe(true);
+
+    act(() => {
+      jest.advanceTimersByTime(999);
+    });
+    expect(MockEventSource.instances).toHaveLength(1);
+
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(MockEventSource.latest.url).toBe('/api/posts/subscribe?resumeAfter=w1.7');
+
+    // The second failure in a row waits twice as long
+    act(() => {
+      MockEventSource.latest.fail();
+      jest.advanceTimersByTime(1999);
+    });
+    expect(MockEventSource.instances).toHaveLength(2);
+    act(() => {
+      jest.advanceTimersByTime(1);
+    });
+    expect(MockEventSource.instances).toHaveLength(3);
+  });
+
+  it('should call onReset on reset events and on reconnects without a token', () => {
+    const onReset = jest.fn();
+    renderHook(() => useCollectionSubscription('/api/posts/subscribe', { onReset }));
+
+    act(() => {
+      MockEventSource.latest.open();
+      MockEventSource.latest.emit({}, { event: 'reset' });
+    });
+    expect(onReset).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      MockEventSource.latest.fail();
+      jest.advanceTimersByTime(1000);
+      MockEventSource.latest.open();
+    });
+    expect(onReset).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close the connection on unmount', () => {
+    const { unmount } = renderHook(() => useCollectionSubscription('/api/posts/subscribe'));
+
+    unmount();
+
+    expect(MockEventSource.latest.closed).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Mock EventSource implementation for testing
+ *
+ * jsdom has no EventSource, so tests install this one and drive the
+ * connection by hand through `open`, `emit` and `fail`.
+ */
+
+type Listener = (event: any) => void;
+
+export class MockEventSource {
+  static instances: MockEventSource[] = [];
+
+  url: string;
+  closed = false;
+  onopen: Listener | null = null;
+  onmessage: Listener | null = null;
+  onerror: Listener | null = null;
+  private listeners: Record<string, Listener[]> = {};
+
+  constructor(url: string) {
+    this.url = url;
+    MockEventSource.instances.push(this);
+  }
+
+  static get latest(): MockEventSource {
+    return MockEventSource.instances[MockEventSource.instances.length - 1];
+  }
+
+  static reset() {
+    MockEventSource.instances = [];
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    (this.listeners[type] = this.listeners[type] || []).push(listener);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  // Simulate the server accepting the connection
+  open() {
+    this.onopen?.({});
+  }
+
+  // Simulate a message event, or a named event such as `reset`
+  emit(data: unknown, options: { id?: string; event?: string } = {}) {
+    const event = { data: JSON.stringify(data), lastEventId: options.id || '' };
+    if (options.event) {
+      (this.listeners[options.event] || []).forEach(listener => listener(event));
+    } else {
+      this.onmessage?.(event);
+    }
+  }
+
+  // Simulate a dropped connection
+  fail() {
+    this.onerror?.({});
+  }
+}
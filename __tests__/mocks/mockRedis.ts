@@ -0,0 +1,120 @@
+/**
+ * In-process fake of the Redis commands used by the Redis cache store
+ *
+ * Strings and sets are kept in memory with millisecond expiry, and every
+ * command sent is recorded in `commands`.
+ */
+
+type Value = string | Set<string>;
+
+export class MockRedis {
+  commands: string[][] = [];
+  private data = new Map<string, { value: Value; expiresAt: number | null }>();
+
+  /**
+   * Send a command, as passed to createRedisCacheStore
+   */
+  command = async (args: string[]): Promise<unknown> => {
+    this.commands.push(args);
+    const [name, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case 'GET': {
+        const value = this.read(rest[0]);
+        return typeof value === 'string' ? value : null;
+      }
+      case 'SET': {
+        const [key, value, option, ms] = rest;
+        const expiresAt = option?.toUpperCase() === 'PX' ? Date.now() + Number(ms) : null;
+        this.data.set(key, { value, expiresAt });
+        return 'OK';
+      }
+      case 'DEL':
+        return rest.filter(key => this.read(key) !== undefined && this.data.delete(key)).length;
+      case 'SADD': {
+        const [key, ...members] = rest;
+        const set = this.read(key);
+        if (set instanceof Set) {
+          members.forEach(member => set.add(member));
+        } else {
+          this.data.set(key, { value: new Set(members), expiresAt: null });
+        }
+        return members.length;
+      }
+      case 'SREM': {
+        const [key, ...members] = rest;
+        const set = this.read(key);
+        if (!(set instanceof Set)) {
+          return 0;
+        }
+        const removed = members.filter(member => set.delete(member)).length;
+        if (set.size === 0) {
+          this.data.delete(key);
+        }
+        return removed;
+      }
+      case 'SMEMBERS': {
+        const set = this.read(rest[0]);
+        return set instanceof Set ? [...set] : [];
+      }
+      case 'PTTL': {
+        const entry = this.read(rest[0]) === undefined ? undefined : this.data.get(rest[0]);
+        if (!entry) {
+          return -2;
+        }
+        return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+      }
+      case 'PEXPIRE': {
+        const entry = this.read(rest[0]) === undefined ? undefined : this.data.get(rest[0]);
+        if (!entry) {
+          return 0;
+        }
+        entry.expiresAt = Date.now() + Number(rest[1]);
+        return 1;
+      }
+      case 'SCAN': {
+        // Returns every match at once
+        const pattern = rest[rest.findIndex(arg => arg.toUpperCase() === 'MATCH') + 1];
+        const matcher = globToRegExp(pattern);
+        return ['0', this.keys().filter(key => matcher.test(key))];
+      }
+      default:
+        throw new Error(`ERR unknown command '${name}'`);
+    }
+  };
+
+  /**
+   * Get every key that has not expired
+   */
+  keys(): string[] {
+    return [...this.data.keys()].filter(key => this.read(key) !== undefined);
+  }
+
+  private read(key: string): Value | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry?.value;
+  }
+}
+
+/**
+ * Convert a Redis glob pattern with `*`, `?` and escapes to a regex
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else if (char === '*') {
+      source += '.*';
+    } else if (char === '?') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
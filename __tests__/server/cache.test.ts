@@ -1,4 +1,4 @@
-import serverCache from '../../src/server/cache';
+import serverCache, { ServerCache } from '../../src/server/cache';
 
 describe('Server Cache', () => {
   beforeEach(() => {
@@ -120,6 +120,50 @@ describe('Server Cache', () => {
     });
   });
 
+  describe('tags', () => {
+    it('should remove every entry set with a tag', () => {
+      serverCache.set('posts:all', 'list', { tags: ['posts', 'posts:1', 'posts:2'] });
+      serverCache.set('posts:all?limit=1', 'page', { ttl: 1000, tags: ['posts', 'posts:1'] });
+      serverCache.set('posts:2', 'item', { tags: ['posts:2'] });
+
+      serverCache.invalidateTag('posts:1');
+
+      expect(serverCache.has('posts:all')).toBe(false);
+      expect(serverCache.has('posts:all?limit=1')).toBe(false);
+      expect(serverCache.has('posts:2')).toBe(true);
+    });
+
+    it('should respect the TTL passed with tags', () => {
+      jest.useFakeTimers();
+
+      serverCache.set('test-key', 'test-value', { ttl: 1000, tags: ['tag'] });
+      jest.advanceTimersByTime(1001);
+
+      expect(serverCache.get('test-key')).toBeNull();
+
+      jest.useRealTimers();
+    });
+
+    it('should forget the tags of replaced and deleted entries', () => {
+      serverCache.set('key1', 'old', { tags: ['old-tag'] });
+      serverCache.set('key1', 'new', { tags: ['new-tag'] });
+      serverCache.set('key2', 'value2', { tags: ['new-tag'] });
+      serverCache.delete('key2');
+      serverCache.set('key2', 'untagged');
+
+      serverCache.invalidateTag('old-tag');
+      expect(serverCache.get('key1')).toBe('new');
+
+      serverCache.invalidateTag('new-tag');
+      expect(serverCache.has('key1')).toBe(false);
+      expect(serverCache.get('key2')).toBe('untagged');
+    });
+
+    it('should not throw for unknown tags', () => {
+      expect(() => serverCache.invalidateTag('unknown')).not.toThrow();
+    });
+  });
+
   describe('clear', () => {
     it('should remove all keys from the cache', () => {
       serverCache.set('key1', 'value1');
@@ -168,4 +212,240 @@ describe('Server Cache', () => {
       expect(serverCache.size()).toBe(0);
     });
   });
+
+  describe('getOrLoad', () => {
+    // Let background refreshes settle while fake timers are installed
+    const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should load and cache values on a miss', async () => {
+      const loader = jest.fn().mockResolvedValue('loaded');
+
+      expect(await serverCache.getOrLoad('key', loader)).toBe('loaded');
+      expect(await serverCache.getOrLoad('key', loader)).toBe('loaded');
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share one loader call between concurrent misses', async () => {
+      let resolve: (value: string) => void = () => {};
+      const loader = jest.fn(() => new Promise<string>(done => { resolve = done; }));
+
+      const first = serverCache.getOrLoad('key', loader);
+      const second = serverCache.getOrLoad('key', loader);
+      resolve('loaded');
+
+      expect(await Promise.all([first, second])).toEqual(['loaded', 'loaded']);
+      expect(loader).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass loader errors to every waiting caller without caching', async () => {
+      const loader = jest.fn().mockRejectedValueOnce(new Error('Query failed'));
+
+      const first = serverCache.getOrLoad('key', loader);
+      const second = serverCache.getOrLoad('key', loader);
+
+      await expect(first).rejects.toThrow('Query failed');
+      await expect(second).rejects.toThrow('Query failed');
+      expect(serverCache.has('key')).toBe(false);
+    });
+
+    it('should serve stale values while refreshing them in the background', async () => {
+      jest.useFakeTimers();
+      const loader = jest.fn()
+        .mockResolvedValueOnce('old')
+        .mockResolvedValueOnce('new');
+
+      await serverCache.getOrLoad('key', loader, { ttl: 1000, staleTtl: 5000 });
+      jest.advanceTimersByTime(2000);
+
+      expect(serverCache.get('key')).toBeNull();
+      expect(await serverCache.getOrLoad('key', loader, { ttl: 1000, staleTtl: 5000 })).toBe('old');
+      await flushPromises();
+      expect(loader).toHaveBeenCalledTimes(2);
+      expect(await serverCache.getOrLoad('key', loader, { ttl: 1000 })).toBe('new');
+    });
+
+    it('should keep serving the stale value if the refresh fails', async () => {
+      jest.useFakeTimers();
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const loader = jest.fn()
+        .mockResolvedValueOnce('old')
+        .mockRejectedValueOnce(new Error('Query failed'));
+
+      await serverCache.getOrLoad('key', loader, { ttl: 1000, staleTtl: 5000 });
+      jest.advanceTimersByTime(2000);
+      await serverCache.getOrLoad('key', loader);
+      await flushPromises();
+
+      expect(errorSpy).toHaveBeenCalledWith('Error refreshing cache entry key:', expect.any(Error));
+      expect(await serverCache.getOrLoad('key', loader)).toBe('old');
+      errorSpy.mockRestore();
+    });
+
+    it('should load again once the stale time has passed', async () => {
+      jest.useFakeTimers();
+      const loader = jest.fn()
+        .mockResolvedValueOnce('old')
+        .mockResolvedValueOnce('new');
+
+      await serverCache.getOrLoad('key', loader, { ttl: 1000, staleTtl: 1000 });
+      jest.advanceTimersByTime(2001);
+
+      expect(await serverCache.getOrLoad('key', loader)).toBe('new');
+    });
+
+    it('should not cache null or values loaded across an invalidation', async () => {
+      expect(await serverCache.getOrLoad('missing', async () => null)).toBeNull();
+      expect(serverCache.has('missing')).toBe(false);
+
+      const loaded = serverCache.getOrLoad('key', async () => 'before write', { tags: ['posts'] });
+      serverCache.invalidateTag('posts');
+
+      expect(await loaded).toBe('before write');
+      expect(serverCache.has('key')).toBe(false);
+    });
+
+    it('should cache values loaded across unrelated invalidations', async () => {
+      const loaded = serverCache.getOrLoad('posts:all', async () => 'list', { tags: ['posts'] });
+      serverCache.invalidateTag('pages');
+      serverCache.delete('pages:all');
+      serverCache.deleteByPrefix('pages:');
+
+      await loaded;
+      expect(serverCache.get('posts:all')).toBe('list');
+
+      const prefixed = serverCache.getOrLoad('posts:1', async () => 'item');
+      serverCache.deleteByPrefix('posts:');
+      await prefixed;
+      expect(serverCache.has('posts:1')).toBe(false);
+    });
+
+    it('should tag entries from the loaded value', async () => {
+      await serverCache.getOrLoad('list', async () => ['post-1', 'post-2'], {
+        tags: ids => ids.map(id => `posts:${id}`),
+      });
+
+      serverCache.invalidateTag('posts:post-2');
+      expect(serverCache.has('list')).toBe(false);
+    });
+  });
+
+  describe('limits', () => {
+    it('should evict the least recently used entries over maxEntries', () => {
+      const cache = new ServerCache({ maxEntries: 2 });
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.get('a');
+      cache.set('c', 3);
+
+      expect(cache.keys()).toEqual(['a', 'c']);
+      cache.clear();
+    });
+
+    it('should evict entries over maxBytes and skip values that can never fit', () => {
+      const cache = new ServerCache({ maxBytes: 100 });
+      cache.set('a', 'x'.repeat(30));
+      cache.set('b', 'y'.repeat(30));
+
+      expect(cache.keys()).toEqual(['b']);
+      expect(cache.bytes()).toBeLessThanOrEqual(100);
+
+      cache.set('c', 'z'.repeat(100));
+      expect(cache.keys()).toEqual(['b']);
+      cache.clear();
+    });
+
+    it('should evict within a namespace over its quota before anything else', () => {
+      const cache = new ServerCache({
+        maxEntries: 10,
+        namespaceQuota: { maxEntries: 2 },
+        namespaceQuotas: { 'collection:users': { maxEntries: 1 } },
+      });
+      cache.set('collection:posts:all', []);
+      cache.set('collection:logs:1', {});
+      cache.set('collection:logs:2', {});
+      cache.set('collection:logs:3', {});
+      cache.set('collection:users:1', {});
+      cache.set('collection:users:2', {});
+
+      expect(cache.keys()).toEqual([
+        'collection:posts:all',
+        'collection:logs:2',
+        'collection:logs:3',
+        'collection:users:2',
+      ]);
+      cache.clear();
+    });
+
+    it('should keep tags in sync with evicted entries', () => {
+      const cache = new ServerCache({ maxEntries: 1 });
+      cache.set('a', 1, { tags: ['shared'] });
+      cache.set('b', 2, { tags: ['shared'] });
+      cache.invalidateTag('shared');
+
+      expect(cache.size()).toBe(0);
+      expect(cache.bytes()).toBe(0);
+    });
+
+    it('should evict straight away when limits are lowered', () => {
+      const cache = new ServerCache();
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+
+      cache.configure({ maxEntries: 1 });
+
+      expect(cache.keys()).toEqual(['c']);
+      cache.clear();
+    });
+  });
+
+  describe('sweep', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should delete expired entries', () => {
+      jest.useFakeTimers();
+      const cache = new ServerCache({ sweepInterval: 0 });
+      cache.set('short', 1, 1000);
+      cache.set('long', 2, 5000);
+
+      jest.advanceTimersByTime(1001);
+
+      expect(cache.sweep()).toBe(1);
+      expect(cache.keys()).toEqual(['long']);
+      expect(cache.bytes()).toBe(cache.bytes('long'));
+    });
+
+    it('should sweep with a timer that does not keep the process alive', () => {
+      const unref = jest.fn();
+      const setIntervalSpy = jest.spyOn(global, 'setInterval')
+        .mockImplementation((() => ({ unref })) as any);
+      const cache = new ServerCache({ sweepInterval: 1000 });
+      cache.set('short', 1, 500);
+
+      expect(setIntervalSpy).toHaveBeenCalledWith(expect.any(Function), 1000);
+      expect(unref).toHaveBeenCalled();
+
+      cache.clear();
+      setIntervalSpy.mockRestore();
+    });
+
+    it('should not start sweeping until something is cached', () => {
+      jest.useFakeTimers();
+      const cache = new ServerCache({ sweepInterval: 1000 });
+      expect(jest.getTimerCount()).toBe(0);
+
+      cache.set('short', 1, 500);
+      expect(jest.getTimerCount()).toBe(1);
+
+      jest.advanceTimersByTime(1000);
+      expect(cache.size()).toBe(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+import { createRedisCacheStore, getCacheStore, setCacheStore } from '../../src/server/cacheStore';
+import serverCache from '../../src/server/cache';
+import { MockRedis } from '../mocks/mockRedis';
+
+describe('cache stores', () => {
+  let redis: MockRedis;
+
+  beforeEach(() => {
+    redis = new MockRedis();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    setCacheStore(undefined);
+  });
+
+  it('should default to serverCache', () => {
+    const store = createRedisCacheStore(redis.command);
+    setCacheStore(store);
+    expect(getCacheStore()).toBe(store);
+
+    setCacheStore(undefined);
+    expect(getCacheStore()).toBe(serverCache);
+  });
+
+  describe('Redis', () => {
+    it('should store values as JSON under the key prefix', async () => {
+      const store = createRedisCacheStore(redis.command, { keyPrefix: 'app:' });
+
+      await store.set('collection:posts:all', { success: true, data: [{ id: 'post-1' }] });
+
+      expect(redis.keys()).toEqual(['app:entry:collection:posts:all']);
+      expect(await store.get('collection:posts:all')).toEqual({
+        success: true,
+        data: [{ id: 'post-1' }],
+      });
+      expect(await store.get('collection:posts:post-1')).toBeNull();
+    });
+
+    it('should expire values after their TTL', async () => {
+      jest.useFakeTimers();
+      const store = createRedisCacheStore(redis.command, { defaultTTL: 1000 });
+
+      await store.set('short', 1);
+      await store.set('long', 2, { ttl: 5000 });
+      jest.advanceTimersByTime(1001);
+
+      expect(await store.get('short')).toBeNull();
+      expect(await store.get('long')).toBe(2);
+    });
+
+    it('should delete keys and prefixes', async () => {
+      const store = createRedisCacheStore(redis.command);
+      await store.set('collection:posts:all', []);
+      await store.set('collection:posts:all?status=draft', []);
+      await store.set('collection:posts*:all', []);
+      await store.set('collection:pages:all', []);
+
+      await store.delete('collection:pages:all');
+      await store.deleteByPrefix('collection:posts:');
+
+      // Glob characters in the prefix are matched literally
+      expect(redis.keys()).toEqual(['collection-hooks:entry:collection:posts*:all']);
+    });
+
+    it('should invalidate every value set with a tag', async () => {
+      const store = createRedisCacheStore(redis.command);
+      await store.set('collection:posts:all', [], { tags: ['posts', 'posts:1'] });
+      await store.set('collection:posts:post-1', {}, { tags: ['posts:1'] });
+      await store.set('collection:posts:post-2', {}, { tags: ['posts:2'] });
+
+      await store.invalidateTag('posts:1');
+
+      expect(await store.get('collection:posts:all')).toBeNull();
+      expect(await store.get('collection:posts:post-1')).toBeNull();
+      expect(await store.get('collection:posts:post-2')).toEqual({});
+      expect(redis.keys()).not.toContain('collection-hooks:tag:posts:1');
+    });
+
+    it('should keep a tag as long as its longest-lived value', async () => {
+      jest.useFakeTimers();
+      const store = createRedisCacheStore(redis.command);
+      await store.set('long', 1, { ttl: 5000, tags: ['posts'] });
+      await store.set('short', 2, { ttl: 1000, tags: ['posts'] });
+
+      jest.advanceTimersByTime(2000);
+      await store.invalidateTag('posts');
+
+      expect(await store.get('long')).toBeNull();
+    });
+
+    it('should share values and invalidations between instances', async () => {
+      const first = createRedisCacheStore(redis.command);
+      const second = createRedisCacheStore(redis.command);
+
+      await first.set('collection:posts:all', [], { tags: ['posts'] });
+      expect(await second.get('collection:posts:all')).toEqual([]);
+
+      await second.invalidateTag('posts');
+      expect(await first.get('collection:posts:all')).toBeNull();
+    });
+
+    it('should pass server errors on', async () => {
+      const store = createRedisCacheStore(() => Promise.reject(new Error('Connection refused')));
+
+      await expect(store.get('key')).rejects.toThrow('Connection refused');
+    });
+  });
+});
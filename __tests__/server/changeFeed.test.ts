@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import {
+  decodeChangeStreamToken,
+  encodeChangeStreamToken,
+  fromChangeStreamEvent,
+  listenForChanges,
+  publishChange,
+} from '../../src/server/changeFeed';
+
+describe('changeFeed', () => {
+  describe('fromChangeStreamEvent', () => {
+    const post = { _id: 'mongo-id', id: 'post-1', title: 'First', tenantId: 'acme' };
+    const event = (fields: Record<string, any>) => ({ _id: { _data: 'token' }, ...fields });
+
+    it('should map inserts, updates and replaces with the post-image', () => {
+      for (const [operationType, operation] of [
+        ['insert', 'insert'],
+        ['update', 'update'],
+        ['replace', 'update'],
+      ]) {
+        expect(fromChangeStreamEvent(event({ operationType, fullDocument: post }), {})).toEqual({
+          id: 'post-1',
+          operation,
+          data: post,
+          token: encodeChangeStreamToken({ _data: 'token' }),
+          tenantId: undefined,
+        });
+      }
+    });
+
+    it('should identify deletes by their pre-image', () => {
+      const change = fromChangeStreamEvent(
+        event({ operationType: 'delete', fullDocumentBeforeChange: post }),
+        { tenantField: 'tenantId' }
+      );
+
+      expect(change).toMatchObject({
+        id: 'post-1',
+        operation: 'delete',
+        data: null,
+        tenantId: 'acme',
+      });
+      expect(fromChangeStreamEvent(event({ operationType: 'delete' }), {})).toBe('unknown');
+    });
+
+    it('should report moving to and from the trash as delete and insert', () => {
+      const fields = { softDeleteField: 'deletedAt' };
+      const trashed = { ...post, deletedAt: new Date() };
+
+      expect(
+        fromChangeStreamEvent(
+          event({
+            operationType: 'update',
+            fullDocument: trashed,
+            updateDescription: { updatedFields: { deletedAt: trashed.deletedAt } },
+          }),
+          fields
+        )
+      ).toMatchObject({ operation: 'delete', data: null });
+
+      expect(
+        fromChangeStreamEvent(
+          event({
+            operationType: 'update',
+            fullDocument: post,
+            updateDescription: { updatedFields: {}, removedFields: ['deletedAt'] },
+          }),
+          fields
+        )
+      ).toMatchObject({ operation: 'insert', data: post });
+
+      expect(
+        fromChangeStreamEvent(
+          event({
+            operationType: 'update',
+            fullDocument: trashed,
+            updateDescription: { updatedFields: { title: 'Edited' } },
+          }),
+          fields
+        )
+      ).toBe('skip');
+    });
+
+    it('should skip events that do not change items', () => {
+      expect(fromChangeStreamEvent(event({ operationType: 'drop' }), {})).toBe('skip');
+      expect(
+        fromChangeStreamEvent(event({ operationType: 'update', fullDocument: null }), {})
+      ).toBe('skip');
+    });
+  });
+
+  describe('change stream tokens', () => {
+    it('should round-trip resume tokens', () => {
+      const token = encodeChangeStreamToken({ _data: '8263A1' });
+
+      expect(decodeChangeStreamToken(token)).toEqual({ _data: '8263A1' });
+      expect(decodeChangeStreamToken('w1.5')).toBeNull();
+    });
+  });
+
+  describe('listenForChanges', () => {
+    it('should replay buffered changes after the resume token', () => {
+      const tokens: string[] = [];
+      const first = listenForChanges('feed_test', null, change => tokens.push(change.token));
+      publishChange('feed_test', { id: 'a', operation: 'insert', data: {} });
+      first.stop();
+      publishChange('feed_test', { id: 'b', operation: 'update', data: {} });
+
+      const replayed: string[] = [];
+      const second = listenForChanges('feed_test', tokens[0], change => replayed.push(change.id));
+      second.stop();
+
+      expect(second.resumed).toBe(true);
+      expect(replayed).toEqual(['b']);
+    });
+
+    it('should report tokens it cannot resume from', () => {
+      const listener = jest.fn();
+      const { stop, resumed } = listenForChanges('feed_test', 'w0.1', listener);
+      stop();
+
+      expect(resumed).toBe(false);
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
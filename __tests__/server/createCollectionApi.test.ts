@@ -0,0 +1,1821 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import { createCollectionApi } from '../../src/server/createCollectionApi';
+import serverCache, { ServerCache } from '../../src/server/cache';
+import { createRedisCacheStore } from '../../src/server/cacheStore';
+import { createInProcessInvalidationBus } from '../../src/server/invalidationBus';
+import { getCollection } from '../../src/server/database';
+import { MockRedis } from '../mocks/mockRedis';
+
+jest.mock('../../src/server/database', () => ({
+  getCollection: jest.fn(),
+}));
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.enum(['draft', 'published']),
+  views: z.number(),
+});
+
+type Post = z.infer<typeof PostSchema>;
+
+const mockPosts: Post[] = [
+  { id: 'post-1', title: 'First', status: 'published', views: 10 },
+  { id: 'post-2', title: 'Second', status: 'draft', views: 0 },
+];
+
+// Chainable stand-in for a MongoDB find cursor
+function mockCursor(docs: any[]) {
+  const remaining = [...docs];
+  const cursor: Record<string, jest.Mock> = {
+    project: jest.fn(),
+    sort: jest.fn(),
+    limit: jest.fn(),
+    toArray: jest.fn().mockResolvedValue(docs),
+    next: jest.fn(async () => remaining.shift() ?? null),
+    close: jest.fn().mockResolvedValue(undefined),
+  };
+  cursor.project.mockReturnValue(cursor);
+  cursor.sort.mockReturnValue(cursor);
+  cursor.limit.mockReturnValue(cursor);
+  return cursor;
+}
+
+// Seed the cache with a response tagged the way getAll and getById tag theirs
+function seedCache(key: string, value: unknown) {
+  const [base] = key.split(/[?#]/);
+  const tag = base.endsWith(':all') ? base.slice(0, -':all'.length) : base;
+  serverCache.set(key, value, { tags: [tag] });
+}
+
+describe('createCollectionApi', () => {
+  let collection: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    serverCache.clear();
+
+    collection = {
+      find: jest.fn().mockReturnValue(mockCursor(mockPosts)),
+      findOne: jest.fn(),
+      insertOne: jest.fn().mockResolvedValue({ insertedId: 'mongo-id' }),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+      findOneAndUpdate: jest.fn(),
+      bulkWrite: jest.fn().mockResolvedValue({}),
+      deleteMany: jest.fn().mockResolvedValue({ deletedCount: 0 }),
+    };
+    (getCollection as jest.Mock).mockResolvedValue(collection);
+  });
+
+  describe('getAll', () => {
+    const api = createCollectionApi('posts', PostSchema, {
+      filters: {
+        status: ['eq', 'in'],
+        views: ['gte'],
+      },
+    });
+
+    it('should return all items and cache them', async () => {
+      const response = await api.getAll(new Request('http://localhost/api/posts'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body).toEqual({ success: true, data: mockPosts, cached: false });
+      expect(collection.find).toHaveBeenCalledWith({});
+      expect(serverCache.has('collection:posts:all')).toBe(true);
+    });
+
+    it('should translate URL params into a MongoDB filter', async () => {
+      await api.getAll(new Request('http://localhost/api/posts?views[gte]=5&status=published'));
+
+      expect(collection.find).toHaveBeenCalledWith({
+        status: { $eq: 'published' },
+        views: { $gte: 5 },
+      });
+      expect(serverCache.has('collection:posts:all?status=published&views%5Bgte%5D=5')).toBe(true);
+    });
+
+    it('should reject filters that are not allowed', async () => {
+      const response = await api.getAll(new Request('http://localhost/api/posts?title=First'));
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.success).toBe(false);
+      expect(body.error).toBe('Filtering on title is not allowed');
+      expect(collection.find).not.toHaveBeenCalled();
+    });
+
+    it('should reject filters named after Object.prototype members', async () => {
+      const response = await api.getAll(new Request('http://localhost/api/posts?constructor=x'));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Filtering on constructor is not allowed');
+    });
+
+    it('should pass the filter through the beforeRead hook', async () => {
+      const hookedApi = createCollectionApi('posts', PostSchema, {
+        filters: { status: ['eq'] },
+        hooks: {
+          beforeRead: (query) => ({ ...query, views: { $gt: 0 } }),
+        },
+      });
+
+      await hookedApi.getAll(new Request('http://localhost/api/posts?status=draft'));
+
+      expect(collection.find).toHaveBeenCalledWith({
+        status: { $eq: 'draft' },
+        views: { $gt: 0 },
+      });
+    });
+
+    it('should query once for concurrent requests that miss the cache', async () => {
+      const responses = await Promise.all([
+        api.getAll(new Request('http://localhost/api/posts')),
+        api.getAll(new Request('http://localhost/api/posts')),
+        api.getAll(new Request('http://localhost/api/posts')),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([200, 200, 200]);
+      expect(collection.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve expired lists for staleTime while refreshing them', async () => {
+      jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+      const staleApi = createCollectionApi('posts', PostSchema, {
+        cacheTime: 1000,
+        staleTime: 60 * 1000,
+      });
+      await staleApi.getAll(new Request('http://localhost/api/posts'));
+      jest.advanceTimersByTime(2000);
+      collection.find.mockReturnValue(mockCursor([mockPosts[1]]));
+
+      const stale = await (await staleApi.getAll(new Request('http://localhost/api/posts'))).json();
+      await new Promise(setImmediate);
+      const fresh = await (await staleApi.getAll(new Request('http://localhost/api/posts'))).json();
+
+      expect(stale.data).toEqual(mockPosts);
+      expect(fresh.data).toEqual([mockPosts[1]]);
+      expect(collection.find).toHaveBeenCalledTimes(2);
+      jest.useRealTimers();
+    });
+  });
+
+  describe('sort and fields', () => {
+    const api = createCollectionApi('posts', PostSchema, { filters: { status: ['eq'] } });
+
+    it('should apply sort and projection to getAll', async () => {
+      const cursor = mockCursor(mockPosts);
+      collection.find.mockReturnValueOnce(cursor);
+
+      await api.getAll(new Request('http://localhost/api/posts?sort=status,-views&fields=title'));
+
+      expect(cursor.sort).toHaveBeenCalledWith({ status: 1, views: -1 });
+      expect(cursor.project).toHaveBeenCalledWith({ id: 1, title: 1 });
+      expect(serverCache.has('collection:posts:all?fields=title&sort=status%2C-views')).toBe(true);
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+    });
+
+    it('should reject fields that are not in the schema', async () => {
+      const badSort = await api.getAll(new Request('http://localhost/api/posts?sort=secret'));
+      const badFields = await api.getAll(new Request('http://localhost/api/posts?fields=secret'));
+
+      expect(badSort.status).toBe(400);
+      expect(badFields.status).toBe(400);
+    });
+
+    it('should project getById and cache it separately', async () => {
+      collection.findOne.mockResolvedValueOnce({ id: 'post-1', title: 'First' });
+
+      const response = await api.getById(
+        new Request('http://localhost/api/posts/post-1?fields=title'),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(collection.findOne).toHaveBeenCalledWith(
+        { id: 'post-1' },
+        { projection: { id: 1, title: 1 } }
+      );
+      expect(serverCache.has('collection:posts:post-1?fields=id,title')).toBe(true);
+      expect(serverCache.has('collection:posts:post-1')).toBe(false);
+    });
+
+    it('should query once for concurrent getById requests and not cache missing items', async () => {
+      collection.findOne.mockResolvedValue(null);
+      const get = () => api.getById(new Request('http://localhost/api/posts/post-9'), {
+        params: { id: 'post-9' },
+      });
+
+      const responses = await Promise.all([get(), get()]);
+      expect(responses.map(response => response.status)).toEqual([404, 404]);
+      expect(collection.findOne).toHaveBeenCalledTimes(1);
+
+      await get();
+      expect(collection.findOne).toHaveBeenCalledTimes(2);
+      expect(serverCache.size()).toBe(0);
+    });
+  });
+
+  describe('conditional GET', () => {
+    const api = createCollectionApi('posts', PostSchema);
+
+    it('should answer 304 when If-None-Match matches the cached response', async () => {
+      const first = await api.getAll(new Request('http://localhost/api/posts'));
+      const etag = first.headers.get('ETag');
+
+      const second = await api.getAll(
+        new Request('http://localhost/api/posts', { headers: { 'If-None-Match': etag! } })
+      );
+
+      expect(etag).toMatch(/^"[\w-]+"$/);
+      expect(second.status).toBe(304);
+      expect(second.headers.get('ETag')).toBe(etag);
+      expect(await second.text()).toBe('');
+      expect(collection.find).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return the full body when the ETag is stale', async () => {
+      collection.findOne.mockResolvedValueOnce(mockPosts[0]);
+
+      const response = await api.getById(
+        new Request('http://localhost/api/posts/post-1', { headers: { 'If-None-Match': '"old"' } }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('ETag')).not.toBe('"old"');
+    });
+
+    it('should ignore If-None-Match on cache-bypassing POST reads', async () => {
+      const first = await api.getAll(new Request('http://localhost/api/posts'));
+      const etag = first.headers.get('ETag')!;
+
+      const refresh = await api.getAll(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          headers: { 'If-None-Match': etag },
+        })
+      );
+
+      expect(refresh.status).toBe(200);
+    });
+  });
+
+  describe('getAll with pagination', () => {
+    const api = createCollectionApi('posts', PostSchema, {
+      pagination: { defaultLimit: 1, sortKey: 'views' },
+    });
+
+    it('should return the first page with a cursor to the next one', async () => {
+      const cursor = mockCursor(mockPosts);
+      collection.find.mockReturnValueOnce(cursor);
+
+      const response = await api.getAll(new Request('http://localhost/api/posts'));
+      const body = await response.json();
+
+      expect(collection.find).toHaveBeenCalledWith({});
+      expect(cursor.sort).toHaveBeenCalledWith({ views: 1, id: 1 });
+      expect(cursor.limit).toHaveBeenCalledWith(2);
+      expect(body.data).toEqual([mockPosts[0]]);
+      expect(body.hasMore).toBe(true);
+      expect(typeof body.nextCursor).toBe('string');
+    });
+
+    it('should continue after the cursor', async () => {
+      const firstPage = await api.getAll(new Request('http://localhost/api/posts'));
+      const { nextCursor } = await firstPage.json();
+
+      collection.find.mockReturnValueOnce(mockCursor([mockPosts[1]]));
+
+      const response = await api.getAll(
+        new Request(`http://localhost/api/posts?cursor=${nextCursor}`)
+      );
+      const body = await response.json();
+
+      expect(collection.find).toHaveBeenLastCalledWith({
+        $or: [
+          { views: { $gt: 10 } },
+          { views: 10, id: { $gt: 'post-1' } },
+        ],
+      });
+      expect(body.data).toEqual([mockPosts[1]]);
+      expect(body.hasMore).toBe(false);
+      expect(body.nextCursor).toBeNull();
+      expect(serverCache.has(`collection:posts:all?cursor=${nextCursor}`)).toBe(true);
+    });
+
+    it('should continue past documents without the sort key', async () => {
+      const untitled = { id: 'post-0', title: 'Untitled', status: 'draft' };
+      collection.find.mockReturnValueOnce(mockCursor([untitled, ...mockPosts]));
+      const { nextCursor } = await (await api.getAll(new Request('http://localhost/api/posts'))).json();
+
+      await api.getAll(new Request(`http://localhost/api/posts?cursor=${nextCursor}`));
+
+      expect(collection.find).toHaveBeenLastCalledWith({
+        $or: [
+          { views: null, id: { $gt: 'post-0' } },
+          { views: { $ne: null } },
+        ],
+      });
+    });
+
+    it('should reach documents without the sort key last when descending', async () => {
+      collection.find.mockReturnValueOnce(mockCursor(mockPosts));
+      const { nextCursor } = await (
+        await api.getAll(new Request('http://localhost/api/posts?sort=-views'))
+      ).json();
+
+      await api.getAll(new Request(`http://localhost/api/posts?sort=-views&cursor=${nextCursor}`));
+
+      expect(collection.find).toHaveBeenLastCalledWith({
+        $or: [
+          { views: { $lt: 10 } },
+          { views: 10, id: { $lt: 'post-1' } },
+          { views: null },
+        ],
+      });
+    });
+
+    it('should reject malformed cursors and limits', async () => {
+      const badCursor = await api.getAll(new Request('http://localhost/api/posts?cursor=nope'));
+      const badLimit = await api.getAll(new Request('http://localhost/api/posts?limit=0'));
+
+      expect(badCursor.status).toBe(400);
+      expect(badLimit.status).toBe(400);
+    });
+
+    it('should page by a requested sort field', async () => {
+      const cursor = mockCursor(mockPosts);
+      collection.find.mockReturnValueOnce(cursor);
+
+      await api.getAll(new Request('http://localhost/api/posts?sort=-title'));
+
+      expect(cursor.sort).toHaveBeenCalledWith({ title: -1, id: -1 });
+    });
+
+    it('should refresh the cache with the first page read through beforeRead', async () => {
+      const hookedApi = createCollectionApi('posts', PostSchema, {
+        pagination: { defaultLimit: 1, sortKey: 'views' },
+        hooks: { beforeRead: query => ({ ...query, status: 'published' }) },
+      });
+      collection.find.mockReturnValueOnce(mockCursor(mockPosts));
+
+      const refreshed = await (
+        await hookedApi.refreshCache(new Request('http://localhost/api/posts/refresh'))
+      ).json();
+      const cached = await (await hookedApi.getAll(new Request('http://localhost/api/posts'))).json();
+
+      expect(collection.find).toHaveBeenCalledTimes(1);
+      expect(collection.find).toHaveBeenCalledWith({ status: 'published' });
+      expect(refreshed.data).toEqual([mockPosts[0]]);
+      expect(cached.data).toEqual([mockPosts[0]]);
+      expect(cached.hasMore).toBe(true);
+      expect(typeof cached.nextCursor).toBe('string');
+    });
+  });
+
+  describe('patch', () => {
+    const api = createCollectionApi('posts', PostSchema.extend({ summary: z.string().optional() }));
+
+    const patchRequest = (body: any) =>
+      new Request('http://localhost/api/posts/post-1', {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+      });
+
+    it('should $set supplied fields and return the merged document', async () => {
+      const merged = { ...mockPosts[0], title: 'Renamed', _id: 'mongo-id' };
+      collection.findOneAndUpdate.mockResolvedValueOnce({ value: merged });
+      seedCache('collection:posts:post-1', { success: true, data: mockPosts[0] });
+
+      const response = await api.patch(patchRequest({ title: 'Renamed', summary: null }), {
+        params: { id: 'post-1' },
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(collection.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: 'post-1' },
+        { $set: { title: 'Renamed' }, $unset: { summary: '' } },
+        { returnDocument: 'after', includeResultMetadata: true }
+      );
+      expect(body).toEqual({ success: true, data: merged });
+      expect(serverCache.has('collection:posts:post-1')).toBe(false);
+    });
+
+    it('should return 400 for a body that is not an object', async () => {
+      for (const body of [null, ['title'], 'Renamed']) {
+        const response = await api.patch(patchRequest(body), { params: { id: 'post-1' } });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+          success: false,
+          error: 'Patch body must be a JSON object',
+        });
+      }
+      expect(collection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown keys, id changes and removing required fields', async () => {
+      const unknownKey = await api.patch(patchRequest({ secret: 'x' }), { params: { id: 'post-1' } });
+      const idChange = await api.patch(patchRequest({ id: 'post-9' }), { params: { id: 'post-1' } });
+      const removeRequired = await api.patch(patchRequest({ title: null }), {
+        params: { id: 'post-1' },
+      });
+
+      expect(unknownKey.ok).toBe(false);
+      expect(idChange.ok).toBe(false);
+      expect(removeRequired.ok).toBe(false);
+      expect(collection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the item does not exist', async () => {
+      collection.findOneAndUpdate.mockResolvedValueOnce({ value: null });
+
+      const response = await api.patch(patchRequest({ views: 3 }), { params: { id: 'missing' } });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('bulk operations', () => {
+    const api = createCollectionApi('posts', PostSchema);
+
+    const bulkRequest = (body: any) =>
+      new Request('http://localhost/api/posts/bulk', {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+
+    it('should validate each item and insert the valid ones in one bulk write', async () => {
+      seedCache('collection:posts:all', { success: true, data: [] });
+
+      const response = await api.bulkCreate(
+        bulkRequest([
+          { id: 'post-3', title: 'Third', status: 'draft', views: 0 },
+          { id: 'post-4', title: 'Fourth', status: 'archived', views: 0 },
+        ])
+      );
+      const body = await response.json();
+
+      expect(collection.bulkWrite).toHaveBeenCalledTimes(1);
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [{ insertOne: { document: { id: 'post-3', title: 'Third', status: 'draft', views: 0 } } }],
+        { ordered: false }
+      );
+      expect(body.data).toEqual([
+        { index: 0, id: 'post-3', status: 'ok' },
+        expect.objectContaining({
+          index: 1,
+          id: 'post-4',
+          status: 'invalid',
+          issues: [expect.objectContaining({ path: ['status'] })],
+        }),
+      ]);
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+    });
+
+    it('should report per-item write errors', async () => {
+      collection.bulkWrite.mockRejectedValueOnce({
+        writeErrors: [{ index: 1, errmsg: 'E11000 duplicate key error' }],
+      });
+
+      const response = await api.bulkCreate(bulkRequest(mockPosts));
+      const body = await response.json();
+
+      expect(body.data.map((result: any) => result.status)).toEqual(['ok', 'error']);
+      expect(body.data[1].error).toContain('duplicate key');
+    });
+
+    it('should report items that do not exist on bulk update', async () => {
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1' }]));
+      seedCache('collection:posts:post-1', { success: true, data: mockPosts[0] });
+
+      const response = await api.bulkUpdate(
+        bulkRequest([
+          { ...mockPosts[0], title: 'Updated' },
+          { id: 'missing', title: 'Ghost', status: 'draft', views: 0 },
+        ])
+      );
+      const body = await response.json();
+
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            updateOne: {
+              filter: { id: 'post-1' },
+              update: { $set: { ...mockPosts[0], title: 'Updated' } },
+            },
+          },
+        ],
+        { ordered: false }
+      );
+      expect(body.data.map((result: any) => result.status)).toEqual(['ok', 'not_found']);
+      expect(serverCache.has('collection:posts:post-1')).toBe(false);
+    });
+
+    it('should delete existing ids and report the rest on bulk remove', async () => {
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1' }]));
+
+      const response = await api.bulkRemove(bulkRequest(['post-1', 'missing', 42]));
+      const body = await response.json();
+
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [{ deleteOne: { filter: { id: 'post-1' } } }],
+        { ordered: false }
+      );
+      expect(body.data.map((result: any) => result.status)).toEqual(['ok', 'not_found', 'invalid']);
+    });
+
+    it('should bump the version of items moved to the trash', async () => {
+      const versionedApi = createCollectionApi('posts', PostSchema, {
+        softDelete: true,
+        concurrency: true,
+      });
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1', _version: 2 }]));
+
+      await versionedApi.bulkRemove(bulkRequest(['post-1']));
+
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            updateOne: {
+              filter: { id: 'post-1', deletedAt: null },
+              update: { $set: { deletedAt: expect.any(Date) }, $inc: { _version: 1 } },
+            },
+          },
+        ],
+        { ordered: false }
+      );
+    });
+
+    it('should reject bodies that are not arrays', async () => {
+      const response = await api.bulkRemove(bulkRequest({ ids: ['post-1'] }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('export and import', () => {
+    const api = createCollectionApi('posts', PostSchema, { filters: { status: ['eq'] } });
+
+    const importRequest = (body: string, query = '', contentType = 'application/x-ndjson') =>
+      new Request(`http://localhost/api/posts/import${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': contentType },
+        body,
+      });
+
+    it('should stream the collection as NDJSON without MongoDB ids', async () => {
+      collection.find.mockReturnValueOnce(
+        mockCursor(mockPosts.map((post, index) => ({ _id: `mongo-${index}`, ...post })))
+      );
+
+      const response = await api.exportAll(
+        new Request('http://localhost/api/posts/export?status=published&format=ndjson')
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/x-ndjson');
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="posts.ndjson"');
+      expect(collection.find).toHaveBeenCalledWith({ status: { $eq: 'published' } });
+      expect(await response.text()).toBe(
+        mockPosts.map(post => `${JSON.stringify(post)}\n`).join('')
+      );
+    });
+
+    it('should export CSV when the Accept header asks for it', async () => {
+      const cursor = mockCursor(mockPosts);
+      collection.find.mockReturnValueOnce(cursor);
+
+      const response = await api.exportAll(
+        new Request('http://localhost/api/posts/export?fields=title', {
+          headers: { Accept: 'text/csv' },
+        })
+      );
+
+      expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+      expect(await response.text()).toBe('id,title\r\npost-1,First\r\npost-2,Second\r\n');
+      expect(cursor.project).toHaveBeenCalledWith({ id: 1, title: 1 });
+      expect(cursor.toArray).not.toHaveBeenCalled();
+      expect(cursor.close).toHaveBeenCalled();
+    });
+
+    it('should reject unsupported export formats', async () => {
+      const response = await api.exportAll(new Request('http://localhost/api/posts/export?format=xml'));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should replace items by id and report invalid rows', async () => {
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1' }]));
+      seedCache('collection:posts:all', { success: true, data: [] });
+
+      const response = await api.importMany(
+        importRequest(
+          [
+            JSON.stringify({ ...mockPosts[0], title: 'Imported' }),
+            JSON.stringify({ id: 'post-3', title: 'New', status: 'draft', views: 1 }),
+            '{oops',
+            JSON.stringify({ id: 'post-4', title: 'Bad', status: 'archived', views: 0 }),
+          ].join('\n')
+        )
+      );
+      const body = await response.json();
+
+      expect(collection.bulkWrite).toHaveBeenCalledWith(
+        [
+          {
+            updateOne: {
+              filter: { id: 'post-1' },
+              update: { $set: { ...mockPosts[0], title: 'Imported' } },
+              upsert: true,
+            },
+          },
+          {
+            updateOne: {
+              filter: { id: 'post-3' },
+              update: { $set: { id: 'post-3', title: 'New', status: 'draft', views: 1 } },
+              upsert: true,
+            },
+          },
+        ],
+        { ordered: false }
+      );
+      expect(body.data).toEqual({
+        dryRun: false,
+        total: 4,
+        inserted: 1,
+        updated: 1,
+        failed: 2,
+        errors: [
+          { index: 2, status: 'invalid', error: 'Malformed JSON' },
+          expect.objectContaining({ index: 3, id: 'post-4', status: 'invalid' }),
+        ],
+      });
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+    });
+
+    it('should coerce CSV rows through the schema', async () => {
+      collection.find.mockReturnValueOnce(mockCursor([]));
+
+      const response = await api.importMany(
+        importRequest('id,title,status,views\npost-3,"Third, again",draft,7\n', '', 'text/csv')
+      );
+      const body = await response.json();
+
+      expect(body.data).toMatchObject({ total: 1, inserted: 1, failed: 0 });
+      expect(collection.bulkWrite.mock.calls[0][0][0].updateOne.update.$set).toEqual({
+        id: 'post-3',
+        title: 'Third, again',
+        status: 'draft',
+        views: 7,
+      });
+    });
+
+    it('should only validate rows in a dry run', async () => {
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1' }]));
+
+      const response = await api.importMany(
+        importRequest(mockPosts.map(post => JSON.stringify(post)).join('\n'), '?dryRun=true')
+      );
+      const body = await response.json();
+
+      expect(body.data).toEqual({
+        dryRun: true,
+        total: 2,
+        inserted: 1,
+        updated: 1,
+        failed: 0,
+        errors: [],
+      });
+      expect(collection.bulkWrite).not.toHaveBeenCalled();
+    });
+
+    it('should keep fields the caller may not write', async () => {
+      const protectedApi = createCollectionApi('posts', PostSchema, {
+        validateOnWrite: false,
+        softDelete: true,
+        fieldPermissions: { fields: { views: { write: ['admin'] } } },
+      });
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1', deletedAt: new Date() }]));
+
+      const response = await protectedApi.importMany(
+        importRequest(JSON.stringify({ id: 'post-1', title: 'Imported' }))
+      );
+      const body = await response.json();
+
+      expect(body.data).toMatchObject({ total: 1, updated: 1, failed: 0 });
+      expect(collection.bulkWrite.mock.calls[0][0][0].updateOne.update).toEqual({
+        $set: { id: 'post-1', title: 'Imported' },
+        $unset: { deletedAt: '' },
+      });
+    });
+
+    it('should bump the stored version when concurrency is enabled', async () => {
+      const versionedApi = createCollectionApi('posts', PostSchema, { concurrency: true });
+      collection.find.mockReturnValueOnce(mockCursor([{ id: 'post-1', _version: 4 }]));
+
+      await versionedApi.importMany(importRequest(JSON.stringify(mockPosts[0])));
+
+      expect(collection.bulkWrite.mock.calls[0][0][0].updateOne.update.$set).toEqual({
+        ...mockPosts[0],
+        _version: 5,
+      });
+    });
+  });
+
+  describe('optimistic concurrency', () => {
+    const api = createCollectionApi('posts', PostSchema, { concurrency: true });
+    const versionedPost = { ...mockPosts[0], _version: 3 };
+
+    const updateRequest = (headers: Record<string, string>) =>
+      new Request('http://localhost/api/posts/post-1', {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ ...mockPosts[0], title: 'Edited' }),
+      });
+
+    it('should expose the version as an ETag from getById', async () => {
+      collection.findOne.mockResolvedValueOnce(versionedPost);
+
+      const response = await api.getById(new Request('http://localhost/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+      const cached = await api.getById(new Request('http://localhost/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+
+      expect(response.headers.get('ETag')).toMatch(/^"3\.[\w-]+"$/);
+      expect(cached.headers.get('ETag')).toBe(response.headers.get('ETag'));
+    });
+
+    it('should accept the getById ETag as If-Match', async () => {
+      collection.findOne.mockResolvedValueOnce(versionedPost);
+      const read = await api.getById(new Request('http://localhost/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+
+      const response = await api.update(updateRequest({ 'If-Match': read.headers.get('ETag')! }), {
+        params: { id: 'post-1' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1', _version: 3 },
+        expect.any(Object)
+      );
+    });
+
+    it('should not match the ETag of another role\'s redacted copy', async () => {
+      const redactingApi = createCollectionApi('posts', PostSchema, {
+        concurrency: true,
+        authorize: req => ({ allow: true, principal: { role: req.headers.get('X-Role') } }),
+        fieldPermissions: { fields: { views: { read: ['admin'] } } },
+      });
+      collection.findOne.mockResolvedValue({ ...versionedPost, _version: 1 });
+      const read = (role: string, headers: Record<string, string> = {}) =>
+        redactingApi.getById(
+          new Request('http://localhost/api/posts/post-1', { headers: { 'X-Role': role, ...headers } }),
+          { params: { id: 'post-1' } }
+        );
+
+      const guest = await read('guest');
+      const admin = await read('admin', { 'If-None-Match': guest.headers.get('ETag')! });
+
+      expect(admin.status).toBe(200);
+      expect((await admin.json()).data.views).toBe(10);
+      expect(admin.headers.get('ETag')).not.toBe(guest.headers.get('ETag'));
+    });
+
+    it('should start new documents at version 1', async () => {
+      const response = await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify(mockPosts[1]),
+        })
+      );
+
+      expect(collection.insertOne).toHaveBeenCalledWith({ ...mockPosts[1], _version: 1 });
+      expect(response.headers.get('ETag')).toBe('"1"');
+    });
+
+    it('should require If-Match on update and remove', async () => {
+      const updateResponse = await api.update(updateRequest({}), { params: { id: 'post-1' } });
+      const removeResponse = await api.remove(
+        new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(updateResponse.status).toBe(428);
+      expect(removeResponse.status).toBe(428);
+      expect(collection.updateOne).not.toHaveBeenCalled();
+      expect(collection.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('should update only the expected version and bump it', async () => {
+      const response = await api.update(updateRequest({ 'If-Match': '"3"' }), {
+        params: { id: 'post-1' },
+      });
+
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1', _version: 3 },
+        { $set: { ...mockPosts[0], title: 'Edited' }, $inc: { _version: 1 } }
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get('ETag')).toBe('"4"');
+    });
+
+    it('should reject stale writes with 412 and the current document', async () => {
+      collection.updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+      collection.findOne.mockResolvedValueOnce({ ...versionedPost, _version: 4 });
+
+      const response = await api.update(updateRequest({ 'If-Match': '"3"' }), {
+        params: { id: 'post-1' },
+      });
+      const body = await response.json();
+
+      expect(response.status).toBe(412);
+      expect(response.headers.get('ETag')).toBe('"4"');
+      expect(body.data._version).toBe(4);
+    });
+
+    it('should return 404 when a versioned remove finds no document', async () => {
+      collection.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+      collection.findOne.mockResolvedValueOnce(null);
+
+      const response = await api.remove(
+        new Request('http://localhost/api/posts/post-1', {
+          method: 'DELETE',
+          headers: { 'If-Match': '"3"' },
+        }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(collection.deleteOne).toHaveBeenCalledWith({ id: 'post-1', _version: 3 });
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('soft delete', () => {
+    const api = createCollectionApi('posts', PostSchema, {
+      softDelete: { retentionDays: 30 },
+    });
+
+    const itemRequest = (method: string) =>
+      new Request('http://localhost/api/posts/post-1', { method });
+
+    it('should hide trashed items from getAll and getById', async () => {
+      collection.findOne.mockResolvedValueOnce(null);
+
+      await api.getAll(new Request('http://localhost/api/posts'));
+      const response = await api.getById(itemRequest('GET'), { params: { id: 'post-1' } });
+
+      expect(collection.find).toHaveBeenCalledWith({ deletedAt: null });
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1', deletedAt: null });
+      expect(response.status).toBe(404);
+    });
+
+    it('should mark items as deleted on remove and purge expired trash', async () => {
+      seedCache('collection:posts:all', { success: true, data: mockPosts });
+
+      const response = await api.remove(itemRequest('DELETE'), { params: { id: 'post-1' } });
+
+      expect(response.status).toBe(200);
+      expect(collection.deleteOne).not.toHaveBeenCalled();
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1', deletedAt: null },
+        { $set: { deletedAt: expect.any(Date) } }
+      );
+      expect(collection.deleteMany).toHaveBeenCalledWith({ deletedAt: { $lt: expect.any(Date) } });
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+    });
+
+    it('should list the trash', async () => {
+      const trashed = [{ ...mockPosts[0], deletedAt: '2024-01-01T00:00:00.000Z' }];
+      collection.find.mockReturnValueOnce(mockCursor(trashed));
+
+      const response = await api.listTrash(new Request('http://localhost/api/posts/trash'));
+      const body = await response.json();
+
+      expect(collection.find).toHaveBeenCalledWith({ deletedAt: { $ne: null } });
+      expect(body.data).toEqual(trashed);
+    });
+
+    it('should restore trashed items and invalidate the cache', async () => {
+      seedCache('collection:posts:all', { success: true, data: [] });
+
+      const response = await api.restore(itemRequest('POST'), { params: { id: 'post-1' } });
+
+      expect(response.status).toBe(200);
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1', deletedAt: { $ne: null } },
+        { $unset: { deletedAt: '' } }
+      );
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+    });
+
+    it('should only purge items that are in the trash', async () => {
+      collection.deleteOne.mockResolvedValueOnce({ deletedCount: 0 });
+
+      const response = await api.purge(itemRequest('DELETE'), { params: { id: 'post-1' } });
+
+      expect(collection.deleteOne).toHaveBeenCalledWith({ id: 'post-1', deletedAt: { $ne: null } });
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject trash operations when soft delete is disabled', async () => {
+      const plainApi = createCollectionApi('posts', PostSchema);
+
+      const response = await plainApi.listTrash(new Request('http://localhost/api/posts/trash'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('error responses', () => {
+    const api = createCollectionApi('posts', PostSchema);
+
+    it('should return 400 with Zod issues when validation fails', async () => {
+      const response = await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify({ id: 'post-3', title: 'Third', status: 'archived' }),
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(body.success).toBe(false);
+      expect(body.error).toBe('Validation failed');
+      expect(body.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ path: ['status'], code: 'invalid_enum_value' }),
+          expect.objectContaining({ path: ['views'], code: 'invalid_type' }),
+        ])
+      );
+      expect(collection.insertOne).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a malformed JSON body', async () => {
+      const response = await api.update(
+        new Request('http://localhost/api/posts/post-1', { method: 'PUT', body: '{"title":' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ success: false, error: 'Malformed JSON body' });
+      expect(collection.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for duplicate keys', async () => {
+      collection.insertOne.mockRejectedValueOnce(
+        Object.assign(new Error('E11000 duplicate key error'), {
+          code: 11000,
+          keyPattern: { id: 1 },
+        })
+      );
+
+      const response = await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify(mockPosts[0]),
+        })
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(409);
+      expect(body.errors).toEqual([
+        { path: ['id'], code: 'duplicate_key', message: 'Value must be unique' },
+      ]);
+    });
+
+    it('should return 500 for unexpected errors', async () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+      collection.insertOne.mockRejectedValueOnce(new Error('connection lost'));
+
+      const response = await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify(mockPosts[0]),
+        })
+      );
+
+      expect(response.status).toBe(500);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('authorization', () => {
+    const authorize = jest.fn();
+    const afterWrite = jest.fn(data => data);
+    const api = createCollectionApi('posts', PostSchema, {
+      authorize,
+      hooks: { afterWrite },
+    });
+
+    beforeEach(() => {
+      authorize.mockReset();
+      afterWrite.mockClear();
+    });
+
+    it('should deny with 403 when authorize returns false', async () => {
+      authorize.mockReturnValue(false);
+
+      const response = await api.getAll(new Request('http://localhost/api/posts'));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ success: false, error: 'Forbidden' });
+      expect(collection.find).not.toHaveBeenCalled();
+    });
+
+    it('should answer 500 when authorize throws', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      authorize.mockRejectedValue(new Error('Session store unavailable'));
+
+      const responses = await Promise.all([
+        api.getAll(new Request('http://localhost/api/posts')),
+        api.getById(new Request('http://localhost/api/posts/post-1'), { params: { id: 'post-1' } }),
+        api.exportAll(new Request('http://localhost/api/posts/export')),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([500, 500, 500]);
+      expect(await responses[0].json()).toEqual({ success: false, error: 'Failed to fetch posts' });
+      expect(collection.find).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+    });
+
+    it('should check authorization before serving from the cache', async () => {
+      serverCache.set('collection:posts:post-1', { success: true, data: mockPosts[0], cached: false });
+      authorize.mockResolvedValue({ allow: false, status: 401 });
+
+      const response = await api.getById(new Request('http://localhost/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+
+      expect(response.status).toBe(401);
+      expect(authorize).toHaveBeenCalledWith(expect.any(Request), 'getById', {
+        id: 'post-1',
+        existing: undefined,
+      });
+    });
+
+    it('should block unauthenticated cache refreshes', async () => {
+      serverCache.set('collection:posts:all', { success: true, data: mockPosts });
+      authorize.mockReturnValue({ allow: false, status: 401, error: 'Sign in first' });
+
+      const response = await api.refreshCache(new Request('http://localhost/api/posts/refresh'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({ success: false, error: 'Sign in first' });
+      expect(serverCache.has('collection:posts:all')).toBe(true);
+    });
+
+    it('should pass the body and stored document to authorize', async () => {
+      collection.findOne.mockResolvedValue(mockPosts[0]);
+      authorize.mockReturnValue(true);
+
+      const body = { title: 'Renamed', status: 'draft', views: 1 };
+      const response = await api.update(
+        new Request('http://localhost/api/posts/post-1', {
+          method: 'PUT',
+          body: JSON.stringify(body),
+        }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1' });
+      expect(authorize).toHaveBeenCalledWith(expect.any(Request), 'update', {
+        id: 'post-1',
+        body,
+        existing: mockPosts[0],
+      });
+    });
+
+    it('should pass the principal to later hooks', async () => {
+      authorize.mockResolvedValue({ allow: true, principal: { userId: 'user-1' } });
+
+      await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify(mockPosts[0]),
+        })
+      );
+
+      expect(afterWrite).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'post-1' }),
+        expect.objectContaining({ operation: 'create', principal: { userId: 'user-1' } })
+      );
+    });
+
+    it('should deny when authorize returns nothing', async () => {
+      authorize.mockReturnValue(undefined);
+
+      const response = await api.remove(
+        new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(403);
+      expect(collection.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('multi-tenant', () => {
+    const api = createCollectionApi('posts', PostSchema, {
+      tenant: { header: 'X-Tenant-Id' },
+    });
+
+    const tenantRequest = (tenantId: string, url: string, init: RequestInit = {}) =>
+      new Request(url, { ...init, headers: { 'X-Tenant-Id': tenantId } });
+
+    it('should reject requests without a tenant', async () => {
+      const response = await api.getAll(new Request('http://localhost/api/posts'));
+
+      expect(response.status).toBe(400);
+      expect(collection.find).not.toHaveBeenCalled();
+    });
+
+    it('should scope reads and cache keys to the tenant', async () => {
+      await api.getAll(tenantRequest('acme', 'http://localhost/api/posts'));
+
+      expect(collection.find).toHaveBeenCalledWith({ tenantId: 'acme' });
+      expect(serverCache.has('collection:posts@acme:all')).toBe(true);
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+
+      const response = await api.getAll(tenantRequest('globex', 'http://localhost/api/posts'));
+      const body = await response.json();
+
+      expect(body.cached).toBe(false);
+      expect(collection.find).toHaveBeenLastCalledWith({ tenantId: 'globex' });
+    });
+
+    it('should stamp the tenant on create', async () => {
+      await api.create(
+        tenantRequest('acme', 'http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify(mockPosts[0]),
+        })
+      );
+
+      expect(collection.insertOne).toHaveBeenCalledWith({ ...mockPosts[0], tenantId: 'acme' });
+    });
+
+    it('should refuse to update another tenant\'s item', async () => {
+      collection.updateOne.mockResolvedValueOnce({ matchedCount: 0 });
+
+      const response = await api.update(
+        tenantRequest('globex', 'http://localhost/api/posts/post-1', {
+          method: 'PUT',
+          body: JSON.stringify({ ...mockPosts[0], tenantId: 'acme' }),
+        }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(404);
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1', tenantId: 'globex' },
+        { $set: { ...mockPosts[0], tenantId: 'globex' } }
+      );
+    });
+
+    it('should only delete within the tenant and invalidate its cache', async () => {
+      seedCache('collection:posts@acme:all', { success: true, data: [] });
+      seedCache('collection:posts@globex:all', { success: true, data: [] });
+
+      await api.remove(
+        tenantRequest('acme', 'http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(collection.deleteOne).toHaveBeenCalledWith({ id: 'post-1', tenantId: 'acme' });
+      expect(serverCache.has('collection:posts@acme:all')).toBe(false);
+      expect(serverCache.has('collection:posts@globex:all')).toBe(true);
+    });
+
+    it('should resolve the tenant from the subdomain', async () => {
+      const subdomainApi = createCollectionApi('posts', PostSchema, {
+        tenant: { subdomain: true, field: 'orgId' },
+      });
+
+      await subdomainApi.getById(new Request('http://acme.example.com/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1', orgId: 'acme' });
+    });
+  });
+
+  describe('field permissions', () => {
+    const api = createCollectionApi('posts', PostSchema, {
+      authorize: req => ({ allow: true, principal: { role: req.headers.get('X-Role') } }),
+      fieldPermissions: {
+        fields: {
+          views: { read: ['admin'], write: ['admin'] },
+          status: { write: ['admin', 'editor'] },
+        },
+      },
+    });
+
+    const roleRequest = (role: string, url: string, init: RequestInit = {}) =>
+      new Request(url, { ...init, headers: { 'X-Role': role } });
+
+    it('should redact hidden fields and cache per readable field set', async () => {
+      const guestResponse = await api.getAll(roleRequest('guest', 'http://localhost/api/posts'));
+      const guestBody = await guestResponse.json();
+
+      expect(guestBody.data[0]).not.toHaveProperty('views');
+      expect(serverCache.has('collection:posts:all#read=status')).toBe(true);
+
+      const adminResponse = await api.getAll(roleRequest('admin', 'http://localhost/api/posts'));
+      const adminBody = await adminResponse.json();
+
+      expect(adminBody.cached).toBe(false);
+      expect(adminBody.data[0].views).toBe(10);
+      expect(serverCache.has('collection:posts:all#read=status,views')).toBe(true);
+    });
+
+    it('should redact single items', async () => {
+      collection.findOne.mockResolvedValue(mockPosts[0]);
+
+      const response = await api.getById(roleRequest('editor', 'http://localhost/api/posts/post-1'), {
+        params: { id: 'post-1' },
+      });
+      const body = await response.json();
+
+      expect(body.data).toEqual({ id: 'post-1', title: 'First', status: 'published' });
+    });
+
+    it('should reject filtering by hidden fields', async () => {
+      const filteredApi = createCollectionApi('posts', PostSchema, {
+        filters: { views: ['gte'] },
+        fieldPermissions: { fields: { views: { read: ['admin'] } } },
+      });
+
+      const response = await filteredApi.getAll(new Request('http://localhost/api/posts?views[gte]=5'));
+      const body = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(body.errors).toEqual([
+        { path: ['views'], code: 'forbidden', message: 'Field is not permitted for your role' },
+      ]);
+    });
+
+    it('should reject writes to protected fields', async () => {
+      const response = await api.patch(
+        roleRequest('guest', 'http://localhost/api/posts/post-1', {
+          method: 'PATCH',
+          body: JSON.stringify({ title: 'Renamed', status: 'draft' }),
+        }),
+        { params: { id: 'post-1' } }
+      );
+      const body = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(body.errors).toEqual([
+        { path: ['status'], code: 'forbidden', message: 'Field is not permitted for your role' },
+      ]);
+      expect(collection.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should report protected fields per bulk item', async () => {
+      const response = await api.bulkCreate(
+        roleRequest('editor', 'http://localhost/api/posts/bulk', {
+          method: 'POST',
+          body: JSON.stringify([
+            { id: 'post-3', title: 'Third', status: 'draft', views: 5 },
+          ]),
+        })
+      );
+      const body = await response.json();
+
+      expect(body.data[0]).toMatchObject({ index: 0, id: 'post-3', status: 'forbidden' });
+      expect(collection.bulkWrite).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('lifecycle hooks', () => {
+    it('should await async hooks and pass the request context', async () => {
+      const beforeRead = jest.fn(async (query, context) => ({
+        ...query,
+        owner: context.req.headers.get('X-User'),
+      }));
+      const afterRead = jest.fn(async (data: any[]) =>
+        data.map(item => ({ ...item, enriched: true }))
+      );
+      const api = createCollectionApi('posts', PostSchema, { hooks: { beforeRead, afterRead } });
+
+      const response = await api.getAll(
+        new Request('http://localhost/api/posts', { headers: { 'X-User': 'user-1' } })
+      );
+      const body = await response.json();
+
+      expect(collection.find).toHaveBeenCalledWith({ owner: 'user-1' });
+      expect(body.data[0].enriched).toBe(true);
+      expect(afterRead).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ operation: 'getAll' })
+      );
+    });
+
+    it('should pass the getById filter through beforeRead', async () => {
+      const beforeRead = jest.fn(async (query, context) => ({
+        ...query,
+        owner: context.req.headers.get('X-User'),
+      }));
+      const api = createCollectionApi('posts', PostSchema, { softDelete: true, hooks: { beforeRead } });
+      collection.findOne.mockResolvedValue(null);
+
+      const response = await api.getById(
+        new Request('http://localhost/api/posts/post-1', { headers: { 'X-User': 'user-2' } }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(404);
+      expect(beforeRead).toHaveBeenCalledWith(
+        { id: 'post-1' },
+        expect.objectContaining({ operation: 'getById', id: 'post-1' })
+      );
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1', owner: 'user-2', deletedAt: null });
+    });
+
+    it('should give beforeUpdate the previous document', async () => {
+      collection.findOne.mockResolvedValue(mockPosts[0]);
+      const beforeUpdate = jest.fn(async (data, { existing }) => ({
+        ...data,
+        views: existing.views + 1,
+      }));
+      const api = createCollectionApi('posts', PostSchema, { hooks: { beforeUpdate } });
+
+      await api.update(
+        new Request('http://localhost/api/posts/post-1', {
+          method: 'PUT',
+          body: JSON.stringify({ title: 'Renamed', status: 'draft', views: 0 }),
+        }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(beforeUpdate).toHaveBeenCalledWith(
+        { title: 'Renamed', status: 'draft', views: 0 },
+        expect.objectContaining({ operation: 'update', id: 'post-1', existing: mockPosts[0] })
+      );
+      expect(collection.updateOne).toHaveBeenCalledWith(
+        { id: 'post-1' },
+        { $set: { id: 'post-1', title: 'Renamed', status: 'draft', views: 11 } }
+      );
+    });
+
+    it('should let beforeDelete block a delete', async () => {
+      collection.findOne.mockResolvedValue(mockPosts[0]);
+      const afterDelete = jest.fn();
+      const api = createCollectionApi('posts', PostSchema, {
+        hooks: { beforeDelete: async () => false, afterDelete },
+      });
+
+      const response = await api.remove(
+        new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(409);
+      expect(collection.deleteOne).not.toHaveBeenCalled();
+      expect(afterDelete).not.toHaveBeenCalled();
+    });
+
+    it('should run afterDelete with the deleted document', async () => {
+      collection.findOne.mockResolvedValue(mockPosts[0]);
+      const afterDelete = jest.fn().mockResolvedValue(undefined);
+      const api = createCollectionApi('posts', PostSchema, { hooks: { afterDelete } });
+
+      const response = await api.remove(
+        new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(afterDelete).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: 'remove', id: 'post-1', existing: mockPosts[0] })
+      );
+    });
+
+    it('should run delete hooks per item on bulk remove', async () => {
+      collection.find.mockReturnValueOnce(mockCursor(mockPosts));
+      const afterDelete = jest.fn();
+      const api = createCollectionApi('posts', PostSchema, {
+        hooks: {
+          beforeDelete: ({ existing }) => existing?.status !== 'published',
+          afterDelete,
+        },
+      });
+
+      const response = await api.bulkRemove(
+        new Request('http://localhost/api/posts/bulk', {
+          method: 'DELETE',
+          body: JSON.stringify(['post-1', 'post-2']),
+        })
+      );
+      const body = await response.json();
+
+      expect(body.data.map((result: any) => result.status)).toEqual(['error', 'ok']);
+      expect(afterDelete).toHaveBeenCalledTimes(1);
+      expect(afterDelete).toHaveBeenCalledWith(expect.objectContaining({ id: 'post-2' }));
+    });
+  });
+
+  describe('writes', () => {
+    const api = createCollectionApi('posts', PostSchema);
+
+    it('should invalidate filtered list variants on create', async () => {
+      seedCache('collection:posts:all', { success: true, data: [] });
+      seedCache('collection:posts:all?status=draft', { success: true, data: [] });
+
+      const response = await api.create(
+        new Request('http://localhost/api/posts', {
+          method: 'POST',
+          body: JSON.stringify({ id: 'post-3', title: 'Third', status: 'draft', views: 0 }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(serverCache.has('collection:posts:all')).toBe(false);
+      expect(serverCache.has('collection:posts:all?status=draft')).toBe(false);
+    });
+
+    it('should invalidate projected item variants on remove', async () => {
+      seedCache('collection:posts:post-1', { success: true, data: {} });
+      seedCache('collection:posts:post-1?fields=id,title', { success: true, data: {} });
+      seedCache('collection:posts:post-10', { success: true, data: {} });
+
+      await api.remove(new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }), {
+        params: { id: 'post-1' },
+      });
+
+      expect(serverCache.has('collection:posts:post-1')).toBe(false);
+      expect(serverCache.has('collection:posts:post-1?fields=id,title')).toBe(false);
+      expect(serverCache.has('collection:posts:post-10')).toBe(true);
+    });
+
+    it('should invalidate every list variant read before a write', async () => {
+      await api.getAll(new Request('http://localhost/api/posts'));
+      await api.getAll(new Request('http://localhost/api/posts?fields=title&sort=-views'));
+      collection.findOne.mockResolvedValueOnce(mockPosts[1]);
+      await api.getById(new Request('http://localhost/api/posts/post-2'), {
+        params: { id: 'post-2' },
+      });
+      expect(serverCache.size()).toBe(3);
+
+      collection.findOneAndUpdate.mockResolvedValueOnce({ value: { ...mockPosts[0], views: 11 } });
+      await api.patch(
+        new Request('http://localhost/api/posts/post-1', {
+          method: 'PATCH',
+          body: JSON.stringify({ views: 11 }),
+        }),
+        { params: { id: 'post-1' } }
+      );
+
+      expect(serverCache.keys()).toEqual(['collection:posts:post-2']);
+    });
+  });
+
+  describe('cache stores', () => {
+    it('should share cached responses and invalidations between instances', async () => {
+      const redis = new MockRedis();
+      const first = createCollectionApi('posts', PostSchema, {
+        cacheStore: createRedisCacheStore(redis.command),
+      });
+      const second = createCollectionApi('posts', PostSchema, {
+        cacheStore: createRedisCacheStore(redis.command),
+      });
+
+      await first.getAll(new Request('http://localhost/api/posts'));
+      const cached = await (await second.getAll(new Request('http://localhost/api/posts'))).json();
+      expect(cached.data).toEqual(mockPosts);
+      expect(collection.find).toHaveBeenCalledTimes(1);
+      expect(serverCache.size()).toBe(0);
+
+      await second.remove(new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }), {
+        params: { id: 'post-1' },
+      });
+      await first.getAll(new Request('http://localhost/api/posts'));
+
+      expect(collection.find).toHaveBeenCalledTimes(2);
+    });
+
+    it('should tag lists with the collection only', async () => {
+      const redis = new MockRedis();
+      const redisApi = createCollectionApi('posts', PostSchema, {
+        cacheStore: createRedisCacheStore(redis.command),
+      });
+
+      await redisApi.getAll(new Request('http://localhost/api/posts'));
+
+      expect(redis.keys().filter(key => key.includes(':tag:'))).toEqual([
+        'collection-hooks:tag:collection:posts',
+      ]);
+    });
+
+    it('should publish invalidations for other instances to apply', async () => {
+      const bus = createInProcessInvalidationBus();
+      const publishSpy = jest.spyOn(bus, 'publish');
+      const firstCache = new ServerCache();
+      const secondCache = new ServerCache();
+      const first = createCollectionApi('posts', PostSchema, {
+        cacheStore: firstCache,
+        invalidationBus: bus,
+      });
+      const second = createCollectionApi('posts', PostSchema, {
+        cacheStore: secondCache,
+        invalidationBus: bus,
+      });
+
+      await first.getAll(new Request('http://localhost/api/posts'));
+      await second.getAll(new Request('http://localhost/api/posts'));
+      expect(firstCache.size()).toBe(1);
+      expect(secondCache.size()).toBe(1);
+
+      await second.remove(new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }), {
+        params: { id: 'post-1' },
+      });
+      await new Promise(setImmediate);
+
+      expect(publishSpy).toHaveBeenCalledWith({
+        tags: ['collection:posts', 'collection:posts:post-1'],
+      });
+      expect(firstCache.size()).toBe(0);
+      expect(secondCache.size()).toBe(0);
+    });
+
+    it('should fall back to the database when the store cannot be reached', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const api = createCollectionApi('posts', PostSchema, {
+        cacheStore: createRedisCacheStore(() => Promise.reject(new Error('Connection refused'))),
+      });
+
+      const response = await api.getAll(new Request('http://localhost/api/posts'));
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(body.data).toEqual(mockPosts);
+      expect(errorSpy).toHaveBeenCalledWith('Error reading posts cache:', expect.any(Error));
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('subscribe', () => {
+    // The mocked server is not a replica set unless a test says otherwise
+    beforeEach(() => {
+      collection.watch = jest.fn(() => {
+        throw Object.assign(new Error('The $changeStream stage is only supported on replica sets'), {
+          code: 40573,
+        });
+      });
+    });
+
+    // Reads Server-Sent Events from a subscribe response
+    function openStream(response: Response, controller: AbortController) {
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      const comments: string[] = [];
+      let text = '';
+
+      async function next(count: number) {
+        const events: { id?: string; event?: string; data: any }[] = [];
+        while (events.length < count) {
+          let end = text.indexOf('\n\n');
+          if (end === -1) {
+            const { value, done } = await reader.read();
+            if (done) {
+              break;
+            }
+            text += decoder.decode(value);
+            continue;
+          }
+          const block = text.slice(0, end);
+          text = text.slice(end + 2);
+          if (block.startsWith(':')) {
+            comments.push(block);
+            continue;
+          }
+          const fields: Record<string, string> = {};
+          for (const line of block.split('\n')) {
+            const separator = line.indexOf(': ');
+            fields[line.slice(0, separator)] = line.slice(separator + 2);
+          }
+          events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+        }
+        return events;
+      }
+
+      return { next, comments, close: () => controller.abort() };
+    }
+
+    async function subscribe(
+      api: ReturnType<typeof createCollectionApi>,
+      headers: Record<string, string> = {}
+    ) {
+      const controller = new AbortController();
+      const response = await api.subscribe(
+        new Request('http://localhost/api/posts/subscribe', {
+          headers,
+          signal: controller.signal,
+        })
+      );
+      return { response, ...openStream(response, controller) };
+    }
+
+    const createRequest = (post: Post, headers: Record<string, string> = {}) =>
+      new Request('http://localhost/api/posts', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(post),
+      });
+
+    it('should stream writes made through the API without change streams', async () => {
+      const api = createCollectionApi('posts', PostSchema);
+      const stream = await subscribe(api);
+
+      expect(stream.response.headers.get('Content-Type')).toBe('text/event-stream');
+
+      await api.create(createRequest(mockPosts[0]));
+      await api.remove(
+        new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+        { params: { id: 'post-1' } }
+      );
+      const events = await stream.next(2);
+      stream.close();
+
+      expect(events[0].data).toEqual({
+        id: 'post-1',
+        operation: 'insert',
+        data: { ...mockPosts[0], _id: 'mongo-id' },
+      });
+      expect(events[1].data).toEqual({ id: 'post-1', operation: 'delete', data: null });
+      expect(events[0].id).toMatch(/^w/);
+    });
+
+    it('should only stream the tenant\'s changes, without hidden fields', async () => {
+      const api = createCollectionApi('posts', PostSchema, {
+        tenant: { header: 'X-Tenant-Id' },
+        fieldPermissions: { fields: { views: { read: ['admin'] } } },
+      });
+      const stream = await subscribe(api, { 'X-Tenant-Id': 'acme' });
+
+      await api.create(createRequest(mockPosts[0], { 'X-Tenant-Id': 'globex' }));
+      await api.create(createRequest(mockPosts[1], { 'X-Tenant-Id': 'acme' }));
+      const events = await stream.next(1);
+      stream.close();
+
+      expect(events[0].data.id).toBe('post-2');
+      expect(events[0].data.data).toEqual({
+        id: 'post-2',
+        title: 'Second',
+        status: 'draft',
+        tenantId: 'acme',
+        _id: 'mongo-id',
+      });
+    });
+
+    it('should replay missed changes after the Last-Event-ID', async () => {
+      const api = createCollectionApi('posts', PostSchema);
+      const first = await subscribe(api);
+      await api.create(createRequest(mockPosts[0]));
+      const [received] = await first.next(1);
+      first.close();
+
+      // Written while the client was disconnected
+      await api.create(createRequest(mockPosts[1]));
+
+      const second = await subscribe(api, { 'Last-Event-ID': received.id! });
+      const [missed] = await second.next(1);
+      second.close();
+
+      expect(missed.data.id).toBe('post-2');
+    });
+
+    it('should send a reset event for tokens it cannot resume from', async () => {
+      const api = createCollectionApi('posts', PostSchema);
+      const stream = await subscribe(api, { 'Last-Event-ID': 'w0.1' });
+
+      const [event] = await stream.next(1);
+      stream.close();
+
+      expect(event.event).toBe('reset');
+    });
+
+    it('should send heartbeat comments', async () => {
+      const api = createCollectionApi('posts', PostSchema, {
+        changeFeed: { heartbeatInterval: 5 },
+      });
+      const stream = await subscribe(api);
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await api.create(createRequest(mockPosts[0]));
+      await stream.next(1);
+      stream.close();
+
+      expect(stream.comments).toContain(': heartbeat');
+    });
+
+    it('should stream changes from a MongoDB change stream', async () => {
+      let rejectNext: (error: Error) => void = () => undefined;
+      const changeStream = {
+        tryNext: jest.fn().mockResolvedValue({
+          _id: { _data: 'token-1' },
+          operationType: 'update',
+          fullDocument: { ...mockPosts[0], deletedAt: new Date() },
+          updateDescription: { updatedFields: { deletedAt: new Date() }, removedFields: [] },
+        }),
+        next: jest.fn(() => new Promise((resolve, reject) => (rejectNext = reject))),
+        close: jest.fn(async () => rejectNext(new Error('Change stream closed'))),
+      };
+      collection.watch = jest.fn().mockReturnValue(changeStream);
+
+      const api = createCollectionApi('posts', PostSchema, { softDelete: true });
+      const stream = await subscribe(api);
+      const [event] = await stream.next(1);
+      stream.close();
+
+      expect(event.data).toEqual({ id: 'post-1', operation: 'delete', data: null });
+      expect(event.id).toMatch(/^c\./);
+      expect(collection.watch).toHaveBeenCalledWith([], { fullDocument: 'updateLookup' });
+      expect(changeStream.close).toHaveBeenCalled();
+    });
+
+    it('should request pre-images to identify deletes when configured', async () => {
+      let rejectNext: (error: Error) => void = () => undefined;
+      const changeStream = {
+        tryNext: jest.fn().mockResolvedValue({
+          _id: { _data: 'token-1' },
+          operationType: 'delete',
+          fullDocumentBeforeChange: mockPosts[0],
+        }),
+        next: jest.fn(() => new Promise((resolve, reject) => (rejectNext = reject))),
+        close: jest.fn(async () => rejectNext(new Error('Change stream closed'))),
+      };
+      collection.watch = jest.fn().mockReturnValue(changeStream);
+
+      const api = createCollectionApi('posts', PostSchema, { changeFeed: { preImages: true } });
+      const stream = await subscribe(api);
+      const [event] = await stream.next(1);
+      stream.close();
+
+      expect(event.data).toEqual({ id: 'post-1', operation: 'delete', data: null });
+      expect(collection.watch).toHaveBeenCalledWith([], {
+        fullDocument: 'updateLookup',
+        fullDocumentBeforeChange: 'whenAvailable',
+      });
+    });
+
+    it('should fall back to the write path when change streams are unsupported', async () => {
+      const changeStream = {
+        tryNext: jest
+          .fn()
+          .mockRejectedValue(new Error('The $changeStream stage is only supported on replica sets')),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      collection.watch = jest.fn().mockReturnValue(changeStream);
+
+      const api = createCollectionApi('posts', PostSchema);
+      const stream = await subscribe(api);
+      await api.create(createRequest(mockPosts[0]));
+      const [event] = await stream.next(1);
+      stream.close();
+
+      expect(event.data.operation).toBe('insert');
+      expect(changeStream.close).toHaveBeenCalled();
+    });
+
+    it('should retry change streams after other errors', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const changeStream = {
+        tryNext: jest.fn().mockRejectedValue(new Error('Connection reset')),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+      collection.watch = jest.fn().mockReturnValue(changeStream);
+
+      const api = createCollectionApi('posts', PostSchema);
+      const first = await subscribe(api);
+      expect(await first.next(1)).toEqual([]);
+      const second = await subscribe(api);
+      await second.next(1);
+
+      expect(collection.watch).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenCalledWith('Error starting change feed:', expect.any(Error));
+      errorSpy.mockRestore();
+    });
+
+    it('should reject unauthorized subscribers', async () => {
+      const api = createCollectionApi('posts', PostSchema, {
+        authorize: (req, operation) => operation !== 'subscribe',
+      });
+
+      const { response } = await subscribe(api);
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
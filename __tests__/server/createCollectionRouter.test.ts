@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import { renderHook, act } from '@testing-library/react-hooks/native';
+import { useCollection } from '../../src/client/hooks/useCollection';
+import { createCollectionRouter } from '../../src/server/createCollectionRouter';
+import serverCache from '../../src/server/cache';
+import { getCollection } from '../../src/server/database';
+
+jest.mock('../../src/server/database', () => ({
+  getCollection: jest.fn(),
+}));
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+});
+
+const mockPosts = [
+  { id: 'post-1', title: 'First' },
+  { id: 'post-2', title: 'Second' },
+];
+
+describe('createCollectionRouter', () => {
+  let collection: Record<string, jest.Mock>;
+
+  const router = createCollectionRouter({
+    posts: { schema: PostSchema },
+    articles: { schema: PostSchema, collection: 'blog_posts', softDelete: true },
+  });
+
+  const routeContext = (path: string[]) => ({ params: { path } });
+
+  beforeEach(() => {
+    serverCache.clear();
+
+    collection = {
+      find: jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue(mockPosts),
+      }),
+      findOne: jest.fn().mockResolvedValue(mockPosts[0]),
+      insertOne: jest.fn().mockResolvedValue({ insertedId: 'mongo-id' }),
+      updateOne: jest.fn().mockResolvedValue({ matchedCount: 1 }),
+      deleteOne: jest.fn().mockResolvedValue({ deletedCount: 1 }),
+    };
+    (getCollection as jest.Mock).mockResolvedValue(collection);
+  });
+
+  it('should list a collection', async () => {
+    const response = await router.GET(
+      new Request('http://localhost/api/posts'),
+      routeContext(['posts'])
+    );
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.data).toEqual(mockPosts);
+    expect(getCollection).toHaveBeenCalledWith('posts');
+  });
+
+  it('should dispatch item routes by method', async () => {
+    const getResponse = await router.GET(
+      new Request('http://localhost/api/posts/post-1'),
+      routeContext(['posts', 'post-1'])
+    );
+    expect((await getResponse.json()).data.id).toBe('post-1');
+    expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1' });
+
+    await router.DELETE(
+      new Request('http://localhost/api/posts/post-1', { method: 'DELETE' }),
+      routeContext(['posts', 'post-1'])
+    );
+    expect(collection.deleteOne).toHaveBeenCalledWith({ id: 'post-1' });
+  });
+
+  it('should create on POST and refresh on POST /refresh', async () => {
+    const createResponse = await router.POST(
+      new Request('http://localhost/api/posts', {
+        method: 'POST',
+        body: JSON.stringify({ id: 'post-3', title: 'Third' }),
+      }),
+      routeContext(['posts'])
+    );
+    expect(createResponse.status).toBe(200);
+    expect(collection.insertOne).toHaveBeenCalledWith({ id: 'post-3', title: 'Third' });
+
+    const refreshResponse = await router.POST(
+      new Request('http://localhost/api/posts/refresh', { method: 'POST' }),
+      routeContext(['posts', 'refresh'])
+    );
+    expect((await refreshResponse.json()).data).toEqual(mockPosts);
+    expect(collection.insertOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh useCollection lists without creating items', async () => {
+    const unvalidated = createCollectionRouter({
+      posts: { schema: PostSchema, validateOnWrite: false, filters: { title: ['eq'] } },
+    });
+    // Route the hook's requests through the router
+    (global.fetch as jest.Mock).mockImplementation((url: string, init?: RequestInit) => {
+      const request = new Request(new URL(url, 'http://localhost'), init);
+      const path = request.url.split('?')[0].split('/api/')[1].split('/');
+      return (unvalidated as any)[request.method](request, routeContext(path));
+    });
+
+    const { result, waitForNextUpdate } = renderHook(() =>
+      useCollection<{ id: string; title: string }>('/api/posts?title=First')
+    );
+    await waitForNextUpdate();
+    await act(() => result.current.refresh());
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/posts?title=First', { method: 'POST' });
+    expect(collection.find).toHaveBeenLastCalledWith({ title: { $eq: 'First' } });
+    expect(collection.insertOne).not.toHaveBeenCalled();
+    expect(result.current.data).toEqual(mockPosts);
+  });
+
+  it('should use the configured collection name and options', async () => {
+    await router.POST(
+      new Request('http://localhost/api/articles/trash/post-1', { method: 'POST' }),
+      routeContext(['articles', 'trash', 'post-1'])
+    );
+
+    expect(getCollection).toHaveBeenCalledWith('blog_posts');
+    expect(collection.updateOne).toHaveBeenCalledWith(
+      { id: 'post-1', deletedAt: { $ne: null } },
+      { $unset: { deletedAt: '' } }
+    );
+  });
+
+  it('should accept params passed as a Promise', async () => {
+    const response = await router.GET(new Request('http://localhost/api/posts'), {
+      params: Promise.resolve({ path: ['posts'] }),
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 404 for unknown collections and paths', async () => {
+    for (const path of [['comments'], ['constructor'], ['posts', 'post-1', 'extra'], []]) {
+      const response = await router.GET(new Request('http://localhost/api'), routeContext(path));
+      expect(response.status).toBe(404);
+    }
+  });
+
+  it('should return 405 with the allowed methods', async () => {
+    const response = await router.PATCH(
+      new Request('http://localhost/api/posts', { method: 'PATCH' }),
+      routeContext(['posts'])
+    );
+
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET, POST');
+  });
+
+  it('should reserve the export and import paths', async () => {
+    const exportResponse = await router.POST(
+      new Request('http://localhost/api/posts/export', { method: 'POST' }),
+      routeContext(['posts', 'export'])
+    );
+    expect(exportResponse.headers.get('Allow')).toBe('GET');
+
+    const importResponse = await router.GET(
+      new Request('http://localhost/api/posts/import'),
+      routeContext(['posts', 'import'])
+    );
+    expect(importResponse.headers.get('Allow')).toBe('POST');
+    expect(collection.findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import {
+  coerceCsvValue,
+  detectImportFormat,
+  formatCsvRow,
+  formatRecords,
+  getCsvColumns,
+  negotiateExportFormat,
+  readImportRecords,
+} from '../../src/server/dataTransfer';
+import { InvalidQueryError } from '../../src/server/query';
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  views: z.number(),
+  published: z.boolean().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+async function* chunked(...chunks: string[]) {
+  yield* chunks;
+}
+
+async function collect<T>(records: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const record of records) {
+    result.push(record);
+  }
+  return result;
+}
+
+describe('dataTransfer', () => {
+  describe('format negotiation', () => {
+    it('should prefer the format param over the Accept header', () => {
+      expect(negotiateExportFormat('csv', 'application/x-ndjson')).toBe('csv');
+      expect(negotiateExportFormat('jsonl', null)).toBe('ndjson');
+      expect(negotiateExportFormat(null, 'text/html, text/csv;q=0.9')).toBe('csv');
+      expect(negotiateExportFormat(null, '*/*')).toBe('ndjson');
+    });
+
+    it('should read the upload format from the Content-Type header', () => {
+      expect(detectImportFormat(null, 'text/csv; charset=utf-8')).toBe('csv');
+      expect(detectImportFormat(null, 'application/json')).toBe('ndjson');
+      expect(detectImportFormat('csv', 'application/x-ndjson')).toBe('csv');
+    });
+
+    it('should reject unsupported formats', () => {
+      expect(() => negotiateExportFormat('xml', null)).toThrow(InvalidQueryError);
+      expect(() => detectImportFormat('xlsx', null)).toThrow(InvalidQueryError);
+    });
+  });
+
+  describe('CSV output', () => {
+    it('should quote cells with separators and encode objects as JSON', () => {
+      expect(formatCsvRow(['plain', 'a,b', 'say "hi"', 'two\nlines', null, 3, ['x', 'y']])).toBe(
+        'plain,"a,b","say ""hi""","two\nlines",,3,"[""x"",""y""]"\r\n'
+      );
+      expect(formatCsvRow([new Date('2024-01-02T03:04:05.000Z'), true])).toBe(
+        '2024-01-02T03:04:05.000Z,true\r\n'
+      );
+    });
+
+    it('should keep spreadsheets from running cells as formulas', () => {
+      expect(formatCsvRow(['=SUM(A1:A9)', '+1', '-cmd', '@A1', '\tx', -5, 'a=b'])).toBe(
+        "'=SUM(A1:A9),'+1,'-cmd,'@A1,'\tx,-5,a=b\r\n"
+      );
+      expect(coerceCsvValue(z.string(), "'=SUM(A1:A9)")).toBe('=SUM(A1:A9)');
+      expect(coerceCsvValue(z.string(), "'quoted")).toBe("'quoted");
+    });
+
+    it('should take columns from the schema, or from the documents without a shape', () => {
+      expect(getCsvColumns(PostSchema, [])).toEqual(['id', 'title', 'views', 'published', 'tags']);
+      expect(getCsvColumns(z.any(), [{ id: '1', a: 1 }, { id: '2', b: 2 }])).toEqual(['id', 'a', 'b']);
+    });
+
+    it('should write one line per document', () => {
+      const docs = [{ id: '1', title: 'One' }, { id: '2' }];
+
+      expect(formatRecords(docs, 'ndjson', [])).toBe('{"id":"1","title":"One"}\n{"id":"2"}\n');
+      expect(formatRecords(docs, 'csv', ['id', 'title'])).toBe('1,One\r\n2,\r\n');
+    });
+  });
+
+  describe('readImportRecords', () => {
+    it('should parse NDJSON lines split across chunks and report bad lines', async () => {
+      const records = await collect(
+        readImportRecords(
+          chunked('{"id":"1","ti', 'tle":"One"}\n\nnot json\n', '[1,2]\r\n{"id":"2"}'),
+          'ndjson',
+          PostSchema
+        )
+      );
+
+      expect(records).toEqual([
+        { value: { id: '1', title: 'One' } },
+        { error: 'Malformed JSON' },
+        { error: 'Line is not a JSON object' },
+        { value: { id: '2' } },
+      ]);
+    });
+
+    it('should convert NDJSON dates back to the schema types', async () => {
+      const EventSchema = z.object({
+        id: z.string(),
+        startsAt: z.date(),
+        endsAt: z.date().optional(),
+        sessions: z.array(z.object({ at: z.date() })),
+      });
+      const doc = {
+        id: '1',
+        startsAt: new Date('2024-01-02T10:00:00Z'),
+        sessions: [{ at: new Date('2024-01-02T11:00:00Z') }],
+        note: '2024-01-02',
+      };
+
+      const records = await collect(
+        readImportRecords(
+          chunked(formatRecords([doc], 'ndjson', []), '{"id":"2","startsAt":"soon","sessions":[]}'),
+          'ndjson',
+          EventSchema
+        )
+      );
+
+      expect(records).toEqual([
+        { value: doc },
+        { value: { id: '2', startsAt: 'soon', sessions: [] } },
+      ]);
+      expect(EventSchema.safeParse(records[0].value).success).toBe(true);
+    });
+
+    it('should parse quoted CSV cells and coerce them to the schema types', async () => {
+      const records = await collect(
+        readImportRecords(
+          chunked(
+            '\uFEFFid,title,views,published,tags\r\n',
+            '1,"Hello, ""world""",12,true,"[""a""]"\r\n2,"Two\nlines",x,',
+            ',\r\n\r\n3,Short\r\n'
+          ),
+          'csv',
+          PostSchema
+        )
+      );
+
+      expect(records).toEqual([
+        { value: { id: '1', title: 'Hello, "world"', views: 12, published: true, tags: ['a'] } },
+        { value: { id: '2', title: 'Two\nlines', views: 'x' } },
+        { error: 'Expected 5 columns but found 2' },
+      ]);
+    });
+
+    it('should leave values it cannot convert for validation to report', () => {
+      expect(coerceCsvValue(z.number(), 'ten')).toBe('ten');
+      expect(coerceCsvValue(z.boolean(), 'yes')).toBe('yes');
+      expect(coerceCsvValue(z.date(), '2024-01-02')).toEqual(new Date('2024-01-02'));
+      expect(coerceCsvValue(z.string().optional(), '')).toBeUndefined();
+      expect(coerceCsvValue(undefined, '42')).toBe('42');
+    });
+  });
+});
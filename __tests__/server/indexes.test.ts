@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import {
+  declareIndexes,
+  ensureIndexes,
+  getIndexName,
+  setEnsureIndexesOnConnect,
+} from '../../src/server/indexes';
+import { createCollectionApi } from '../../src/server/createCollectionApi';
+import { getCollection } from '../../src/server/database';
+
+jest.mock('../../src/server/database', () => ({
+  getCollection: jest.fn(),
+}));
+
+describe('indexes', () => {
+  let collections: Record<string, Record<string, jest.Mock>>;
+
+  function mockCollection(existing: Record<string, any>[]) {
+    return {
+      listIndexes: jest.fn().mockReturnValue({ toArray: jest.fn().mockResolvedValue(existing) }),
+      createIndex: jest.fn().mockResolvedValue('created'),
+    };
+  }
+
+  beforeEach(() => {
+    collections = {};
+    (getCollection as jest.Mock).mockImplementation(async (name: string) => {
+      collections[name] = collections[name] || mockCollection([{ name: '_id_', key: { _id: 1 } }]);
+      return collections[name];
+    });
+  });
+
+  it('should name indexes the way MongoDB does', () => {
+    expect(getIndexName({ fields: { status: 1, createdAt: -1 } })).toBe('status_1_createdAt_-1');
+    expect(getIndexName({ fields: { title: 'text' } })).toBe('title_text');
+    expect(getIndexName({ fields: { id: 1 }, name: 'by_id' })).toBe('by_id');
+  });
+
+  it('should always index id and create declared indexes with their options', async () => {
+    createCollectionApi('articles', z.object({ id: z.string() }), {
+      indexes: [
+        { fields: { expiresAt: 1 }, expireAfterSeconds: 0 },
+        {
+          fields: { slug: 1 },
+          unique: true,
+          partialFilterExpression: { slug: { $exists: true } },
+        },
+      ],
+    });
+
+    const [report] = await ensureIndexes({ collections: ['articles'] });
+
+    expect(collections.articles.createIndex.mock.calls).toEqual([
+      [{ expiresAt: 1 }, { expireAfterSeconds: 0, name: 'expiresAt_1' }],
+      [
+        { slug: 1 },
+        { unique: true, partialFilterExpression: { slug: { $exists: true } }, name: 'slug_1' },
+      ],
+      [{ id: 1 }, { unique: true, name: 'id_1' }],
+    ]);
+    expect(report).toEqual({
+      collection: 'articles',
+      created: ['expiresAt_1', 'slug_1', 'id_1'],
+      unchanged: [],
+      conflicts: [],
+      extra: [],
+      errors: [],
+    });
+  });
+
+  it('should scope the id index to the tenant', async () => {
+    createCollectionApi('projects', z.object({ id: z.string() }), {
+      tenant: { header: 'X-Tenant-Id', field: 'orgId' },
+    });
+
+    await ensureIndexes({ collections: ['projects'] });
+
+    expect(collections.projects.createIndex).toHaveBeenCalledWith(
+      { orgId: 1, id: 1 },
+      { unique: true, name: 'orgId_1_id_1' }
+    );
+  });
+
+  it('should leave matching indexes alone and report drift', async () => {
+    collections.notes = mockCollection([
+      { name: '_id_', key: { _id: 1 } },
+      { name: 'id_1', key: { id: 1 }, unique: true },
+      // A text index is listed by its weights
+      { name: 'search', key: { _fts: 'text', _ftsx: 1 }, weights: { body: 1, title: 1 } },
+      { name: 'status_1', key: { status: 1 } },
+      { name: 'legacy_1', key: { legacy: 1 } },
+    ]);
+    declareIndexes('notes', [
+      { fields: { id: 1 }, unique: true },
+      { fields: { title: 'text', body: 'text' }, name: 'search' },
+      { fields: { status: 1 }, unique: true },
+    ]);
+
+    const [report] = await ensureIndexes({ collections: ['notes'] });
+
+    expect(collections.notes.createIndex).not.toHaveBeenCalled();
+    expect(report.unchanged).toEqual(['id_1', 'search']);
+    expect(report.conflicts).toEqual([
+      {
+        name: 'status_1',
+        declared: { fields: { status: 1 }, unique: true },
+        existing: { name: 'status_1', key: { status: 1 } },
+      },
+    ]);
+    expect(report.extra).toEqual(['legacy_1']);
+  });
+
+  it('should report missing indexes without creating them in a dry run', async () => {
+    declareIndexes('drafts', [{ fields: { id: 1 }, unique: true }]);
+
+    const [report] = await ensureIndexes({ collections: ['drafts'], dryRun: true });
+
+    expect(report.created).toEqual(['id_1']);
+    expect(collections.drafts.createIndex).not.toHaveBeenCalled();
+  });
+
+  it('should report indexes MongoDB fails to create', async () => {
+    collections.users = mockCollection([]);
+    collections.users.listIndexes.mockReturnValue({
+      toArray: jest.fn().mockRejectedValue(Object.assign(new Error('ns does not exist'), { code: 26 })),
+    });
+    collections.users.createIndex.mockRejectedValue(new Error('E11000 duplicate key error'));
+    declareIndexes('users', [{ fields: { email: 1 }, unique: true }]);
+
+    const [report] = await ensureIndexes({ collections: ['users'] });
+
+    expect(report.errors).toEqual([{ name: 'email_1', error: 'E11000 duplicate key error' }]);
+  });
+
+  it('should ensure indexes as they are declared once enabled', async () => {
+    // Collections declared by earlier tests are ensured too and report their drift
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    setEnsureIndexesOnConnect(true);
+    try {
+      declareIndexes('events', [{ fields: { occurredAt: -1 } }]);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(collections.events.createIndex).toHaveBeenCalledWith(
+        { occurredAt: -1 },
+        { name: 'occurredAt_-1' }
+      );
+    } finally {
+      setEnsureIndexesOnConnect(false);
+      warn.mockRestore();
+    }
+  });
+});
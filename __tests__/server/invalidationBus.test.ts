@@ -0,0 +1,203 @@
+/**
+ * @jest-environment node
+ */
+import {
+  attachInvalidationBus,
+  createInProcessInvalidationBus,
+  createMongoInvalidationBus,
+  createPubSubInvalidationBus,
+  getInvalidationBus,
+  setInvalidationBus,
+} from '../../src/server/invalidationBus';
+import serverCache, { ServerCache } from '../../src/server/cache';
+import { getCollection } from '../../src/server/database';
+
+jest.mock('../../src/server/database', () => ({
+  getCollection: jest.fn(),
+}));
+
+// Let queued listeners and stream reads run
+const flushPromises = () => new Promise(jest.requireActual('timers').setImmediate);
+
+describe('invalidation buses', () => {
+  afterEach(() => {
+    setInvalidationBus(undefined);
+    serverCache.clear();
+    jest.useRealTimers();
+  });
+
+  describe('in-process', () => {
+    it('should deliver invalidations until unsubscribed', async () => {
+      const bus = createInProcessInvalidationBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe(listener);
+
+      await bus.publish({ tags: ['collection:posts'] });
+      unsubscribe();
+      await bus.publish({ tags: ['collection:pages'] });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ tags: ['collection:posts'] });
+    });
+
+    it('should apply invalidations once to each attached store', async () => {
+      const bus = createInProcessInvalidationBus();
+      const first = new ServerCache();
+      const second = new ServerCache();
+      const invalidateSpy = jest.spyOn(first, 'invalidateTag');
+      attachInvalidationBus(bus, () => first);
+      attachInvalidationBus(bus, () => first);
+      attachInvalidationBus(bus, () => second);
+      first.set('collection:posts:all', [], { tags: ['collection:posts'] });
+      second.set('collection:posts:all', [], { tags: ['collection:posts'] });
+      second.set('report', {});
+
+      await bus.publish({ tags: ['collection:posts'], keys: ['report'] });
+      await flushPromises();
+
+      expect(invalidateSpy).toHaveBeenCalledTimes(1);
+      expect(first.size()).toBe(0);
+      expect(second.size()).toBe(0);
+    });
+
+    it('should subscribe the default store to the configured bus', async () => {
+      const bus = createInProcessInvalidationBus();
+      const replacement = createInProcessInvalidationBus();
+      setInvalidationBus(bus);
+      expect(getInvalidationBus()).toBe(bus);
+
+      serverCache.set('collection:posts:all', [], { tags: ['collection:posts'] });
+      await bus.publish({ tags: ['collection:posts'] });
+      await flushPromises();
+      expect(serverCache.size()).toBe(0);
+
+      setInvalidationBus(replacement);
+      serverCache.set('collection:posts:all', [], { tags: ['collection:posts'] });
+      await bus.publish({ tags: ['collection:posts'] });
+      await flushPromises();
+      expect(serverCache.size()).toBe(1);
+    });
+  });
+
+  describe('MongoDB', () => {
+    let collection: Record<string, jest.Mock>;
+    let events: any[];
+    let wake: () => void;
+
+    // Change stream whose next() waits for events pushed by the test
+    function mockChangeStream() {
+      return {
+        next: jest.fn(async () => {
+          while (events.length === 0) {
+            await new Promise<void>(resolve => { wake = resolve; });
+          }
+          const event = events.shift();
+          if (event instanceof Error) {
+            throw event;
+          }
+          return event;
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    function push(event: any) {
+      events.push(event);
+      wake?.();
+    }
+
+    beforeEach(() => {
+      events = [];
+      collection = {
+        insertOne: jest.fn().mockResolvedValue({ insertedId: 'id' }),
+        watch: jest.fn(() => mockChangeStream()),
+      };
+      (getCollection as jest.Mock).mockResolvedValue(collection);
+    });
+
+    it('should insert published invalidations', async () => {
+      const bus = createMongoInvalidationBus({ collectionName: 'invalidations' });
+
+      await bus.publish({ tags: ['collection:posts'] });
+
+      expect(getCollection).toHaveBeenCalledWith('invalidations');
+      expect(collection.insertOne).toHaveBeenCalledWith({
+        tags: ['collection:posts'],
+        createdAt: expect.any(Date),
+      });
+    });
+
+    it('should deliver inserted invalidations from a change stream', async () => {
+      const bus = createMongoInvalidationBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe(listener);
+      await flushPromises();
+
+      push({ _id: { _data: '1' }, fullDocument: { tags: ['collection:posts'], createdAt: new Date() } });
+      push({ _id: { _data: '2' }, fullDocument: { malformed: true } });
+      await flushPromises();
+      unsubscribe();
+
+      expect(collection.watch).toHaveBeenCalledWith([{ $match: { operationType: 'insert' } }], {});
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ tags: ['collection:posts'] });
+    });
+
+    it('should reopen a broken stream after the last invalidation received', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const bus = createMongoInvalidationBus();
+      const listener = jest.fn();
+      const unsubscribe = bus.subscribe(listener);
+      await flushPromises();
+
+      push({ _id: { _data: '1' }, fullDocument: { tags: ['a'] } });
+      push(new Error('Connection lost'));
+      await flushPromises();
+      jest.advanceTimersByTime(1000);
+      await flushPromises();
+      unsubscribe();
+
+      expect(collection.watch).toHaveBeenCalledTimes(2);
+      expect(collection.watch).toHaveBeenLastCalledWith(expect.any(Array), {
+        resumeAfter: { _data: '1' },
+      });
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('pub/sub', () => {
+    it('should publish JSON to the channel', async () => {
+      const publish = jest.fn();
+      const bus = createPubSubInvalidationBus({ publish, subscribe: jest.fn(), channel: 'app' });
+
+      await bus.publish({ tags: ['collection:posts'] });
+
+      expect(publish).toHaveBeenCalledWith('app', '{"tags":["collection:posts"]}');
+    });
+
+    it('should deliver messages until unsubscribed', async () => {
+      let onMessage: (message: string) => void = () => {};
+      const stop = jest.fn();
+      const subscribe = jest.fn(async (_channel: string, handler: (message: string) => void) => {
+        onMessage = handler;
+        return stop;
+      });
+      const bus = createPubSubInvalidationBus({ publish: jest.fn(), subscribe });
+      const listener = jest.fn();
+
+      const unsubscribe = bus.subscribe(listener);
+      await flushPromises();
+      onMessage('{"tags":["collection:posts"],"keys":["report"]}');
+      onMessage('not json');
+      unsubscribe();
+      await flushPromises();
+      onMessage('{"tags":["collection:pages"]}');
+
+      expect(subscribe).toHaveBeenCalledWith('collection-hooks:invalidations', expect.any(Function));
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({ tags: ['collection:posts'], keys: ['report'] });
+      expect(stop).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { z } from 'zod';
+import { createCollectionApi } from '../../src/server/createCollectionApi';
+import { createNodeMiddleware, createPagesApiHandler } from '../../src/server/nodeAdapter';
+import serverCache from '../../src/server/cache';
+import { getCollection } from '../../src/server/database';
+
+jest.mock('../../src/server/database', () => ({
+  getCollection: jest.fn(),
+}));
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+});
+
+const mockPosts = [
+  { id: 'post-1', title: 'First' },
+  { id: 'post-2', title: 'Second' },
+];
+
+describe('nodeAdapter', () => {
+  let collection: Record<string, jest.Mock>;
+  let server: http.Server;
+
+  const api = createCollectionApi('posts', PostSchema);
+
+  async function listen(listener: http.RequestListener): Promise<string> {
+    server = http.createServer(listener);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  // The global fetch is mocked for the client tests, so requests use http directly
+  function send(
+    url: string,
+    options: { method?: string; body?: string } = {}
+  ): Promise<{ status: number; headers: http.IncomingHttpHeaders; json: () => any }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(url, { method: options.method || 'GET' }, res => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => (text += chunk));
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode as number,
+            headers: res.headers,
+            json: () => JSON.parse(text),
+          })
+        );
+      });
+      req.on('error', reject);
+      req.end(options.body);
+    });
+  }
+
+  beforeEach(() => {
+    serverCache.clear();
+
+    collection = {
+      find: jest.fn().mockReturnValue({
+        sort: jest.fn().mockReturnThis(),
+        toArray: jest.fn().mockResolvedValue(mockPosts),
+      }),
+      findOne: jest.fn().mockResolvedValue(mockPosts[0]),
+      insertOne: jest.fn().mockResolvedValue({ insertedId: 'mongo-id' }),
+    };
+    (getCollection as jest.Mock).mockResolvedValue(collection);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe('createNodeMiddleware', () => {
+    it('should serve list and item routes from a plain http server', async () => {
+      const baseUrl = await listen(createNodeMiddleware(api));
+
+      const listResponse = await send(`${baseUrl}/`);
+      expect(listResponse.status).toBe(200);
+      expect(listResponse.headers['content-type']).toBe('application/json');
+      expect(listResponse.json().data).toEqual(mockPosts);
+
+      const itemResponse = await send(`${baseUrl}/post-1`);
+      expect(itemResponse.json().data).toEqual(mockPosts[0]);
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1' });
+    });
+
+    it('should read the request body from the stream', async () => {
+      const baseUrl = await listen(createNodeMiddleware(api));
+
+      const response = await send(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({ id: 'post-3', title: 'Third' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(collection.insertOne).toHaveBeenCalledWith({ id: 'post-3', title: 'Third' });
+    });
+
+    it('should use a body already parsed by earlier middleware', async () => {
+      const middleware = createNodeMiddleware(api);
+      const baseUrl = await listen((req, res) => {
+        // Stand-in for express.json(), which consumes the stream
+        req.resume();
+        req.on('end', () => {
+          Object.assign(req, { body: { id: 'post-4', title: 'Parsed' } });
+          middleware(req, res);
+        });
+      });
+
+      const response = await send(baseUrl, { method: 'POST', body: 'ignored' });
+
+      expect(response.status).toBe(200);
+      expect(collection.insertOne).toHaveBeenCalledWith({ id: 'post-4', title: 'Parsed' });
+    });
+
+    it('should read the stream when a parser set an empty body without reading it', async () => {
+      const middleware = createNodeMiddleware(api);
+      const baseUrl = await listen((req, res) => {
+        // Stand-in for express.json() skipping a request that is not JSON
+        Object.assign(req, { body: {} });
+        middleware(req, res);
+      });
+
+      const response = await send(baseUrl, {
+        method: 'POST',
+        body: JSON.stringify({ id: 'post-5', title: 'Unparsed' }),
+      });
+
+      expect(response.status).toBe(200);
+      expect(collection.insertOne).toHaveBeenCalledWith({ id: 'post-5', title: 'Unparsed' });
+    });
+
+    it('should pass unknown paths to next', async () => {
+      const middleware = createNodeMiddleware(api);
+      const next = jest.fn();
+      const baseUrl = await listen((req, res) => {
+        middleware(req, res, () => {
+          next();
+          res.statusCode = 418;
+          res.end();
+        });
+      });
+
+      const response = await send(`${baseUrl}/post-1/comments`);
+
+      expect(response.status).toBe(418);
+      expect(next).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return 404 and 405 without next', async () => {
+      const baseUrl = await listen(createNodeMiddleware(api));
+
+      const notFound = await send(`${baseUrl}/post-1/comments`);
+      expect(notFound.status).toBe(404);
+
+      const notAllowed = await send(baseUrl, { method: 'PATCH' });
+      expect(notAllowed.status).toBe(405);
+      expect(notAllowed.headers.allow).toBe('GET, POST');
+    });
+  });
+
+  describe('createPagesApiHandler', () => {
+    function withNextApi(
+      handler: ReturnType<typeof createPagesApiHandler>,
+      query: Record<string, string | string[]>
+    ): http.RequestListener {
+      return (req, res) => {
+        const apiRes = Object.assign(res, {
+          status: (code: number) => {
+            res.statusCode = code;
+            return apiRes;
+          },
+          json: (body: unknown) => res.end(JSON.stringify(body)),
+        });
+        handler(Object.assign(req, { query, cookies: {}, body: undefined }) as any, apiRes as any);
+      };
+    }
+
+    it('should route by the catch-all query parameter', async () => {
+      const handler = createPagesApiHandler(api);
+      const baseUrl = await listen(withNextApi(handler, { path: ['post-1'] }));
+
+      const response = await send(`${baseUrl}/api/posts/post-1`);
+
+      expect(response.json().data).toEqual(mockPosts[0]);
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-1' });
+    });
+
+    it('should support a custom parameter name', async () => {
+      const handler = createPagesApiHandler(api, { param: 'slug' });
+      const baseUrl = await listen(withNextApi(handler, { slug: 'post-2' }));
+
+      await send(`${baseUrl}/api/posts/post-2`);
+
+      expect(collection.findOne).toHaveBeenCalledWith({ id: 'post-2' });
+    });
+  });
+});
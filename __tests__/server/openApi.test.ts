@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import { z } from 'zod';
+import {
+  createOpenApiHandler,
+  generateOpenApiDocument,
+  zodToJsonSchema,
+} from '../../src/server/openApi';
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1).max(200),
+  email: z.string().email().optional(),
+  views: z.number().int().nonnegative().default(0),
+  status: z.enum(['draft', 'published']),
+  tags: z.array(z.string()),
+  publishedAt: z.date().nullable(),
+});
+
+describe('openApi', () => {
+  describe('zodToJsonSchema', () => {
+    it('should convert object schemas with required fields and checks', () => {
+      expect(zodToJsonSchema(PostSchema)).toEqual({
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          title: { type: 'string', minLength: 1, maxLength: 200 },
+          email: { type: 'string', format: 'email' },
+          views: { type: 'integer', minimum: 0, default: 0 },
+          status: { type: 'string', enum: ['draft', 'published'] },
+          tags: { type: 'array', items: { type: 'string' } },
+          publishedAt: { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'null' }] },
+        },
+        required: ['id', 'title', 'status', 'tags', 'publishedAt'],
+      });
+    });
+
+    it('should convert unions, literals, records and descriptions', () => {
+      const schema = z
+        .union([z.literal('a'), z.record(z.number())])
+        .describe('A letter or a map');
+
+      expect(zodToJsonSchema(schema)).toEqual({
+        anyOf: [{ const: 'a' }, { type: 'object', additionalProperties: { type: 'number' } }],
+        description: 'A letter or a map',
+      });
+    });
+  });
+
+  describe('generateOpenApiDocument', () => {
+    it('should describe every endpoint of a collection', () => {
+      const document: any = generateOpenApiDocument(
+        { posts: { schema: PostSchema } },
+        { title: 'Blog', version: '2.0.0' }
+      );
+
+      expect(document.openapi).toBe('3.1.0');
+      expect(document.info).toEqual({ title: 'Blog', version: '2.0.0' });
+      expect(Object.keys(document.paths)).toEqual([
+        '/api/posts',
+        '/api/posts/{id}',
+        '/api/posts/bulk',
+        '/api/posts/export',
+        '/api/posts/import',
+        '/api/posts/subscribe',
+        '/api/posts/refresh',
+      ]);
+      expect(Object.keys(document.paths['/api/posts/{id}'])).toEqual([
+        'get',
+        'put',
+        'patch',
+        'delete',
+      ]);
+      expect(document.components.schemas.Posts).toEqual(zodToJsonSchema(PostSchema));
+    });
+
+    it('should describe the response envelope and error responses', () => {
+      const document: any = generateOpenApiDocument({ posts: { schema: PostSchema } });
+      const create = document.paths['/api/posts'].post;
+
+      expect(create.operationId).toBe('createPosts');
+      expect(create.requestBody.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/Posts',
+      });
+      expect(create.responses['200'].content['application/json'].schema).toEqual({
+        type: 'object',
+        properties: { success: { const: true }, data: { $ref: '#/components/schemas/Posts' } },
+        required: ['success', 'data'],
+      });
+      expect(create.responses['400']).toEqual({ $ref: '#/components/responses/BadRequest' });
+      expect(create.responses['409']).toEqual({ $ref: '#/components/responses/Conflict' });
+      expect(document.components.responses.BadRequest.content).toBeDefined();
+    });
+
+    it('should make patch fields optional and exclude the id', () => {
+      const document: any = generateOpenApiDocument({ posts: { schema: PostSchema } });
+      const patchSchema = document.components.schemas.PostsPatch;
+
+      expect(patchSchema.required).toBeUndefined();
+      expect(patchSchema.properties.id).toBeUndefined();
+      expect(patchSchema.additionalProperties).toBe(false);
+    });
+
+    it('should reflect the collection options', () => {
+      const document: any = generateOpenApiDocument(
+        {
+          posts: {
+            schema: PostSchema,
+            filters: { status: ['eq', 'in'] },
+            pagination: { maxLimit: 100 },
+            concurrency: true,
+            softDelete: true,
+            tenant: { header: 'X-Tenant-Id' },
+            authorize: () => true,
+          },
+        },
+        { basePath: '/v1/' }
+      );
+
+      const list = document.paths['/v1/posts'].get;
+      const names = list.parameters.map((parameter: any) => parameter.name);
+      expect(names).toEqual(
+        expect.arrayContaining(['X-Tenant-Id', 'limit', 'cursor', 'status', 'status[in]'])
+      );
+      expect(list.parameters.find((p: any) => p.name === 'limit').schema.maximum).toBe(100);
+      expect(list.responses['401']).toBeDefined();
+
+      const update = document.paths['/v1/posts/{id}'].put;
+      expect(update.parameters.map((parameter: any) => parameter.name)).toContain('If-Match');
+      expect(update.responses['412']).toBeDefined();
+      expect(update.responses['428']).toBeDefined();
+
+      expect(document.paths['/v1/posts/trash']).toBeDefined();
+      expect(Object.keys(document.paths['/v1/posts/trash/{id}'])).toEqual(['post', 'delete']);
+    });
+  });
+
+  describe('createOpenApiHandler', () => {
+    it('should serve the document as JSON', async () => {
+      const GET = createOpenApiHandler({ posts: { schema: PostSchema } });
+
+      const response = await GET(new Request('http://localhost/api/openapi.json'));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect((await response.json()).paths['/api/posts']).toBeDefined();
+    });
+  });
+});
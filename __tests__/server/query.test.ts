@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import {
+  InvalidQueryError,
+  getQueryCacheSuffix,
+  parseFieldsQuery,
+  parseFilterQuery,
+  parseSortQuery,
+} from '../../src/server/query';
+
+const PostSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: z.enum(['draft', 'published']),
+  views: z.number().optional(),
+  featured: z.boolean().default(false),
+  publishedAt: z.date().nullable(),
+  tags: z.array(z.string()),
+});
+
+describe('parseFilterQuery', () => {
+  const allowed = {
+    status: ['eq', 'in'] as const,
+    views: ['gte', 'lte'] as const,
+    featured: ['eq'] as const,
+    publishedAt: ['exists', 'gt'] as const,
+    title: ['regex'] as const,
+    tags: ['eq'] as const,
+  };
+
+  const parse = (query: string) =>
+    parseFilterQuery(new URLSearchParams(query), PostSchema, allowed as any);
+
+  it('should return an empty filter when there are no params', () => {
+    expect(parse('')).toEqual({});
+  });
+
+  it('should build equality filters', () => {
+    expect(parse('status=published')).toEqual({ status: { $eq: 'published' } });
+  });
+
+  it('should coerce values using the schema', () => {
+    expect(parse('views[gte]=10&views[lte]=20&featured=true')).toEqual({
+      views: { $gte: 10, $lte: 20 },
+      featured: { $eq: true },
+    });
+    expect(parse('publishedAt[gt]=2024-01-01')).toEqual({
+      publishedAt: { $gt: new Date('2024-01-01') },
+    });
+  });
+
+  it('should coerce equality on array fields against the element type', () => {
+    expect(parse('tags=news')).toEqual({ tags: { $eq: 'news' } });
+  });
+
+  it('should split in lists', () => {
+    expect(parse('status[in]=draft,published')).toEqual({
+      status: { $in: ['draft', 'published'] },
+    });
+  });
+
+  it('should support exists and regex operators', () => {
+    expect(parse('publishedAt[exists]=false&title[regex]=^Hello')).toEqual({
+      publishedAt: { $exists: false },
+      title: { $regex: '^Hello' },
+    });
+  });
+
+  it('should reject fields that are not filterable', () => {
+    expect(() => parse('id=1')).toThrow(InvalidQueryError);
+  });
+
+  it('should reject fields inherited from Object.prototype', () => {
+    for (const field of ['constructor', 'toString', '__proto__']) {
+      expect(() => parse(`${field}=x`)).toThrow(`Filtering on ${field} is not allowed`);
+    }
+  });
+
+  it('should reject operators that are not allowed', () => {
+    expect(() => parse('status[ne]=draft')).toThrow('Operator ne is not allowed on status');
+  });
+
+  it('should reject invalid, long and backtracking regex patterns', () => {
+    expect(() => parse('title[regex]=(')).toThrow('Invalid pattern for title[regex]: (');
+    expect(() => parse(`title[regex]=${'a'.repeat(101)}`)).toThrow('longer than 100 characters');
+    expect(() => parse('title[regex]=^(a%2B)%2B$')).toThrow('nested quantifiers');
+    expect(() => parse('title[regex]=(\\w*\\s?)*x')).toThrow('nested quantifiers');
+    expect(parse('title[regex]=^(Hello|Hi) world')).toEqual({ title: { $regex: '^(Hello|Hi) world' } });
+  });
+
+  it('should reject values that do not match the schema', () => {
+    expect(() => parse('views[gte]=many')).toThrow('Invalid number for views');
+    expect(() => parse('status=archived')).toThrow('Invalid value for status');
+    expect(() => parse('featured=yes')).toThrow('Invalid boolean for featured');
+  });
+});
+
+describe('parseFilterQuery reserved params', () => {
+  it('should not treat sort, fields, limit or cursor as filters', () => {
+    const params = new URLSearchParams('sort=title&fields=title&limit=10&cursor=abc');
+    expect(parseFilterQuery(params, PostSchema)).toEqual({});
+  });
+});
+
+describe('parseSortQuery', () => {
+  it('should return null when no sort is requested', () => {
+    expect(parseSortQuery(null, PostSchema)).toBeNull();
+  });
+
+  it('should map fields to ascending and descending sorts', () => {
+    expect(parseSortQuery('status,-views', PostSchema)).toEqual({ status: 1, views: -1 });
+  });
+
+  it('should reject fields outside the schema', () => {
+    expect(() => parseSortQuery('-secret', PostSchema)).toThrow('Unknown field in sort: secret');
+    expect(() => parseSortQuery('constructor', PostSchema)).toThrow('Unknown field in sort: constructor');
+  });
+});
+
+describe('parseFieldsQuery', () => {
+  it('should return null when no fields are requested', () => {
+    expect(parseFieldsQuery(null, PostSchema)).toBeNull();
+  });
+
+  it('should always include the id', () => {
+    expect(parseFieldsQuery('title,status', PostSchema)).toEqual({ id: 1, title: 1, status: 1 });
+  });
+
+  it('should reject fields outside the schema', () => {
+    expect(() => parseFieldsQuery('title,secret', PostSchema)).toThrow(InvalidQueryError);
+    expect(() => parseFieldsQuery('toString,__proto__', PostSchema)).toThrow(InvalidQueryError);
+    expect(() => parseFieldsQuery('', PostSchema)).toThrow(InvalidQueryError);
+  });
+});
+
+describe('getQueryCacheSuffix', () => {
+  it('should be independent of param order', () => {
+    expect(getQueryCacheSuffix(new URLSearchParams('b=2&a=1'))).toBe('?a=1&b=2');
+    expect(getQueryCacheSuffix(new URLSearchParams('a=1&b=2'))).toBe('?a=1&b=2');
+  });
+
+  it('should be empty when there are no params', () => {
+    expect(getQueryCacheSuffix(new URLSearchParams())).toBe('');
+  });
+});
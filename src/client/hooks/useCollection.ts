@@ -1,7 +1,45 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useCollectionQuery } from './useCollectionQuery';
-import { CollectionOptions, CollectionHookResult } from '../../shared/types';
+import { getSubscribeUrl, useCollectionSubscription } from './useCollectionSubscription';
+import { ChangeEvent, CollectionOptions, CollectionHookResult } from '../../shared/types';
 import clientCache from '../utils/clientCache';
+import { createRequestError } from '../utils/requestError';
+
+/**
+ * Apply a change from the change feed to a list of items
+ * 
+ * @param items The current items
+ * @param event The change
+ * @returns The updated items
+ */
+function applyChange<T>(items: T[], event: ChangeEvent<T>): T[] {
+  const index = items.findIndex(item => (item as { id?: unknown })?.id === event.id);
+  
+  if (event.operation === 'delete') {
+    return index === -1 ? items : items.filter((_, i) => i !== index);
+  }
+  if (!event.data) {
+    return items;
+  }
+  
+  // Updates to items the list does not have yet add them
+  if (index === -1) {
+    return [...items, event.data];
+  }
+  const next = [...items];
+  next[index] = event.data;
+  return next;
+}
+
+/**
+ * Check whether a list response holds the whole collection
+ * 
+ * @param result The list response
+ * @returns False if the server reports further pages
+ */
+function isCompleteList(result: { hasMore?: boolean; nextCursor?: string | null }): boolean {
+  return !result.hasMore && !result.nextCursor;
+}
 
 /**
  * Base hook for collection data with client-side caching
@@ -19,6 +57,7 @@ export function useCollection<T = any>(
   const {
     cacheTime = 5 * 60 * 1000, // 5 minutes default
     transformResponse,
+    live = false,
   } = options;
 
   // Extract collection name from endpoint
@@ -30,15 +69,29 @@ export function useCollection<T = any>(
     error, 
     loading, 
     refetch 
-  } = useCollectionQuery<{ success: boolean; data: T[]; cached: boolean }>(endpoint);
+  } = useCollectionQuery<{
+    success: boolean;
+    data: T[];
+    cached: boolean;
+    hasMore?: boolean;
+    nextCursor?: string | null;
+  }>(endpoint);
 
   // Client-side cache
   const [cachedData, setCachedData] = useState<T[]>(initialData);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  
+  // Untransformed server data, which live changes are applied to
+  const rawDataRef = useRef<T[] | null>(null);
+  // Whether the last response held every item the endpoint can return
+  const completeRef = useRef(false);
 
   // Update client cache when server data changes
   useEffect(() => {
     if (serverData?.success && serverData.data) {
+      rawDataRef.current = serverData.data;
+      completeRef.current = isCompleteList(serverData);
+      
       // Apply custom transform if provided
       let data = serverData.data;
       
@@ -70,12 +123,15 @@ export function useCollection<T = any>(
       });
       
       if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
+        throw await createRequestError(response);
       }
       
       const result = await response.json();
       
       if (result.success && result.data) {
+        rawDataRef.current = result.data;
+        completeRef.current = isCompleteList(result);
+        
         // Apply custom transform if provided
         let data = result.data;
         
@@ -95,6 +151,36 @@ export function useCollection<T = any>(
     }
   }, [endpoint, collectionName, transformResponse, cacheTime]);
 
+  // Apply inserts, updates and deletes without refetching the whole list
+  const applyLiveChange = useCallback((event: ChangeEvent<T>) => {
+    if (!rawDataRef.current) {
+      return;
+    }
+    rawDataRef.current = applyChange(rawDataRef.current, event);
+    
+    const data = transformResponse ? transformResponse(rawDataRef.current) : rawDataRef.current;
+    setCachedData(data as T[]);
+    clientCache.set(`collection:${collectionName}`, data, cacheTime);
+  }, [collectionName, transformResponse, cacheTime]);
+
+  // Follow the change feed when live, reloading everything after missed changes.
+  // The feed covers the whole collection, so only a complete, unfiltered list
+  // takes changes in directly. Filtered lists and the first page of a
+  // paginated one reload on every change rather than taking in items outside
+  // their query or page.
+  const scoped = endpoint.includes('?');
+  const handleChange = useCallback((event: ChangeEvent<T>) => {
+    if (scoped || !completeRef.current) {
+      refresh();
+    } else {
+      applyLiveChange(event);
+    }
+  }, [scoped, refresh, applyLiveChange]);
+  useCollectionSubscription<T>(live ? getSubscribeUrl(endpoint) : null, {
+    onChange: handleChange,
+    onReset: refresh,
+  });
+
   return {
     data: cachedData,
     error,
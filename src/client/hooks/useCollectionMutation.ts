@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import { CollectionMutationResult } from '../../shared/types';
+import { createRequestError } from '../utils/requestError';
 
 /**
  * Custom hook for mutating data through API routes
@@ -24,7 +25,7 @@ export function useCollectionMutation<T = any>(url: string): CollectionMutationR
       });
       
       if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
+        throw await createRequestError(response);
       }
       
       const result = await response.json();
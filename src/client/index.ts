@@ -3,16 +3,23 @@ export { useCollection } from './hooks/useCollection';
 export { useCollectionQuery } from './hooks/useCollectionQuery';
 export { useCollectionMutation } from './hooks/useCollectionMutation';
 export { useAllCollections } from './hooks/useAllCollections';
+export { getSubscribeUrl, useCollectionSubscription } from './hooks/useCollectionSubscription';
 
 // Export client utilities
 export { default as clientCache } from './utils/clientCache';
+export { CollectionRequestError } from './utils/requestError';
 
 // Export types
 export {
+  ChangeEvent,
+  ChangeOperation,
   CollectionOptions,
   CollectionHookResult,
   CollectionQueryResult,
   CollectionMutationResult,
+  CollectionSubscriptionOptions,
+  CollectionSubscriptionResult,
+  ValidationIssue,
 } from '../shared/types';
 
 export {
@@ -0,0 +1,38 @@
+/**
+ * Error raised by the client hooks when an API route responds with an error
+ */
+
+import { ValidationIssue } from '../../shared/types';
+
+/**
+ * Error for a non-2xx API response, carrying the server's error details
+ */
+export class CollectionRequestError extends Error {
+  status: number;
+  errors: ValidationIssue[]; // Field-level issues, empty unless the server sent them
+  body: any; // The parsed response body, if it was JSON
+
+  constructor(status: number, body: any = null) {
+    super(`HTTP error! Status: ${status}`);
+    this.name = 'CollectionRequestError';
+    this.status = status;
+    this.errors = Array.isArray(body?.errors) ? body.errors : [];
+    this.body = body;
+  }
+}
+
+/**
+ * Build a CollectionRequestError from a failed response
+ *
+ * @param response The non-ok fetch response
+ * @returns The error, including any issues reported by the server
+ */
+export async function createRequestError(response: Response): Promise<CollectionRequestError> {
+  let body = null;
+  try {
+    body = typeof response.json === 'function' ? await response.json() : null;
+  } catch {
+    // Error responses are not always JSON
+  }
+  return new CollectionRequestError(response.status, body);
+}
@@ -1,5 +1,15 @@
 import { useState, useEffect } from 'react';
 import { CollectionQueryResult } from '../types';
+import clientCache from '../utils/clientCache';
+import { createRequestError } from '../utils/requestError';
+
+type ConditionalCacheEntry<T> = {
+  etag: string;
+  data: T;
+};
+
+// ETag entries are revalidated on every fetch, so they can outlive the data cache
+const ETAG_CACHE_TIME = 60 * 60 * 1000; // 1 hour
 
 /**
  * Custom hook for fetching data from API routes
@@ -20,13 +30,31 @@ export function useCollectionQuery<T = any>(url: string | null): CollectionQuery
     
     try {
       setLoading(true);
-      const response = await fetch(url);
+      
+      // Send the ETag we last saw so the server can answer 304 Not Modified
+      const cacheKey = `query:${url}`;
+      const cached = clientCache.get<ConditionalCacheEntry<T>>(cacheKey);
+      const response = cached
+        ? await fetch(url, { headers: { 'If-None-Match': cached.etag } })
+        : await fetch(url);
+      
+      if (cached && response.status === 304) {
+        setData(cached.data);
+        setError(null);
+        return;
+      }
       
       if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
+        throw await createRequestError(response);
       }
       
       const result = await response.json();
+      
+      const etag = response.headers?.get('ETag');
+      if (etag) {
+        clientCache.set<ConditionalCacheEntry<T>>(cacheKey, { etag, data: result }, ETAG_CACHE_TIME);
+      }
+      
       setData(result);
       setError(null);
     } catch (err) {
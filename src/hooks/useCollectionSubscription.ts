@@ -0,0 +1,113 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  ChangeEvent,
+  CollectionSubscriptionOptions,
+  CollectionSubscriptionResult,
+} from '../types';
+
+// Reconnect delays double from the minimum up to the maximum
+const MIN_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 30 * 1000; // 30 seconds
+
+/**
+ * Get the change feed URL of a collection endpoint
+ *
+ * @param endpoint API endpoint for the collection, e.g. `/api/posts`
+ * @returns The endpoint's `subscribe` route, without query params
+ */
+export function getSubscribeUrl(endpoint: string): string {
+  const [path] = endpoint.split('?');
+  return `${path.replace(/\/$/, '')}/subscribe`;
+}
+
+/**
+ * Custom hook for following a collection's change feed
+ *
+ * Opens an EventSource to the URL and calls `onChange` for every change.
+ * Lost connections are retried with exponential backoff, resuming after
+ * the last event received. `onReset` is called whenever changes may have
+ * been missed, so the caller can reload its data.
+ *
+ * @param url Change feed URL, or null to stay disconnected
+ * @param options Change and reset callbacks
+ * @returns Object containing the connection state and the last connection error
+ */
+export function useCollectionSubscription<T = any>(
+  url: string | null,
+  options: CollectionSubscriptionOptions<T> = {}
+): CollectionSubscriptionResult {
+  const [connected, setConnected] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Use the latest callbacks without reconnecting when they change
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!url || typeof EventSource === 'undefined') {
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let lastEventId: string | null = null;
+    let hasConnected = false;
+
+    const connect = () => {
+      // A new EventSource does not send Last-Event-ID, so pass it in the URL
+      const target = lastEventId
+        ? `${url}${url.includes('?') ? '&' : '?'}resumeAfter=${encodeURIComponent(lastEventId)}`
+        : url;
+      source = new EventSource(target);
+
+      source.onopen = () => {
+        // Without a token to resume from, changes made while disconnected are lost
+        if (hasConnected && !lastEventId) {
+          optionsRef.current.onReset?.();
+        }
+        hasConnected = true;
+        attempt = 0;
+        setConnected(true);
+        setError(null);
+      };
+
+      source.onmessage = (message: MessageEvent) => {
+        if (message.lastEventId) {
+          lastEventId = message.lastEventId;
+        }
+        let event: ChangeEvent<T>;
+        try {
+          event = JSON.parse(message.data);
+        } catch {
+          return;
+        }
+        optionsRef.current.onChange?.(event);
+      };
+
+      source.addEventListener('reset', () => {
+        optionsRef.current.onReset?.();
+      });
+
+      source.onerror = () => {
+        // Retry ourselves, as EventSource gives up on error responses
+        source?.close();
+        setConnected(false);
+        setError(new Error(`Lost connection to ${url}`));
+
+        const delay = Math.min(MIN_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+        attempt += 1;
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [url]);
+
+  return { connected, error };
+}
@@ -0,0 +1,41 @@
+/**
+ * Authorization helpers for collection endpoints
+ */
+
+import { AuthorizeResult } from '../shared/types';
+
+/**
+ * Error thrown when the `authorize` option denies a request
+ */
+export class AuthorizationError extends Error {
+  status: 401 | 403;
+
+  constructor(status: 401 | 403 = 403, message?: string) {
+    super(message || (status === 401 ? 'Authentication required' : 'Forbidden'));
+    this.name = 'AuthorizationError';
+    this.status = status;
+  }
+}
+
+/**
+ * Check the result of the `authorize` option
+ *
+ * Anything other than `true` or `{ allow: true }` denies the request, so a
+ * callback that forgets to return a value fails closed.
+ *
+ * @param result The value returned by `authorize`
+ * @returns The principal attached to the request, if any
+ * @throws AuthorizationError if the request is denied
+ */
+export function checkAuthorization(result: AuthorizeResult | undefined): any {
+  if (result === true) {
+    return undefined;
+  }
+  if (typeof result === 'object' && result !== null) {
+    if (result.allow) {
+      return result.principal;
+    }
+    throw new AuthorizationError(result.status, result.error);
+  }
+  throw new AuthorizationError();
+}
@@ -1,30 +1,176 @@
 /**
  * Simple in-memory cache implementation for server-side caching
+ *
+ * Entries are evicted least recently used first once the cache, or the
+ * namespace an entry belongs to, goes over its limits. Expired entries are
+ * swept periodically without keeping the process alive.
  */
 
+import {
+  CacheLoadOptions,
+  CacheQuota,
+  CacheSetOptions,
+  CacheStore,
+  ServerCacheOptions,
+} from '../shared/types';
+
 type CacheEntry<T> = {
   data: T;
   timestamp: number;
   expiresAt: number;
+  staleUntil: number;         // Kept until then for getOrLoad to serve while refreshing
+  tags: string[];
+  namespace: string;
+  size: number;               // Estimated bytes, counted against maxBytes
+};
+
+type NamespaceUsage = {
+  keys: Set<string>;          // In least recently used order
+  bytes: number;
 };
 
-class ServerCache {
-  private cache: Map<string, CacheEntry<any>> = new Map();
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024; // 64 MB
+const DEFAULT_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+/**
+ * Get the namespace of a cache key
+ *
+ * Keys are split on colons and the namespace is the key up to its second
+ * colon, e.g. `collection:posts` for `collection:posts:all`. Keys with fewer
+ * colons fall back to the part before the first.
+ */
+function defaultNamespace(key: string): string {
+  const parts = key.split(':');
+  return parts.slice(0, Math.min(2, Math.max(1, parts.length - 1))).join(':');
+}
+
+/**
+ * Estimate the memory an entry takes
+ *
+ * Strings take two bytes per character, and values are measured by their
+ * JSON, which is what API responses are cached as.
+ */
+function estimateSize(key: string, value: unknown): number {
+  let length = 0;
+  try {
+    length = JSON.stringify(value)?.length ?? 0;
+  } catch {
+    // Values that cannot be serialized only count their key
+  }
+  return (key.length + length) * 2;
+}
+
+/**
+ * Check whether usage is over a limit
+ */
+function exceeds(quota: CacheQuota | undefined, entries: number, bytes: number): boolean {
+  return !!quota && (
+    (quota.maxEntries !== undefined && entries > quota.maxEntries)
+    || (quota.maxBytes !== undefined && bytes > quota.maxBytes)
+  );
+}
+
+export class ServerCache implements CacheStore {
+  private cache: Map<string, CacheEntry<any>> = new Map(); // In least recently used order
+  private tagIndex: Map<string, Set<string>> = new Map(); // Keys of the entries with each tag
+  private namespaces: Map<string, NamespaceUsage> = new Map();
+  private totalBytes = 0;
   private defaultTTL: number = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private options: ServerCacheOptions = {};
+  private sweepTimer: ReturnType<typeof setInterval> | undefined;
+  private loads: Map<string, Promise<any>> = new Map(); // Loader calls in flight, by key
+  // Deletes made while loads are in flight, so a load can tell whether it raced
+  // one affecting its own key or tags. Each maps to its place in `sequence`.
+  private sequence = 0;
+  private invalidatedKeys: Map<string, number> = new Map();
+  private invalidatedPrefixes: Map<string, number> = new Map();
+  private invalidatedTags: Map<string, number> = new Map();
+  private clearedAt = 0;
+
+  constructor(options: ServerCacheOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Set the cache's limits
+   *
+   * Entries over the new limits are evicted straight away.
+   * @param options Limits and sweep interval; omitted limits use their defaults
+   */
+  configure(options: ServerCacheOptions): void {
+    this.options = {
+      maxEntries: DEFAULT_MAX_ENTRIES,
+      maxBytes: DEFAULT_MAX_BYTES,
+      sweepInterval: DEFAULT_SWEEP_INTERVAL,
+      ...options,
+    };
+    this.stopSweep();
+    if (this.cache.size > 0) {
+      this.startSweep();
+    }
+
+    for (const namespace of [...this.namespaces.keys()]) {
+      this.evict(namespace);
+    }
+    this.evict();
+  }
 
   /**
    * Set a value in the cache
+   *
+   * Values larger than the cache's or their namespace's `maxBytes` are not
+   * cached.
    * @param key Cache key
    * @param value Value to cache
-   * @param ttl Time to live in milliseconds (defaults to 5 minutes)
+   * @param options Time to live in milliseconds (defaults to 5 minutes), or
+   * the time to live, how long the entry may be served stale, and the tags
+   * to invalidate the entry by
    */
-  set<T>(key: string, value: T, ttl: number = this.defaultTTL): void {
+  set<T>(key: string, value: T, options: number | CacheSetOptions = this.defaultTTL): void {
+    const { ttl = this.defaultTTL, staleTtl = 0, tags = [] } =
+      typeof options === 'number' ? { ttl: options } : options;
     const now = Date.now();
+    const namespace = (this.options.getNamespace || defaultNamespace)(key);
+    const size = estimateSize(key, value);
+
+    // Replacing an entry drops the tags it had before
+    this.remove(key);
+    const quota = this.getQuota(namespace);
+    if (exceeds(this.options, 1, size) || exceeds(quota, 1, size)) {
+      return;
+    }
+
     this.cache.set(key, {
       data: value,
       timestamp: now,
       expiresAt: now + ttl,
+      staleUntil: now + ttl + staleTtl,
+      tags,
+      namespace,
+      size,
     });
+    for (const tag of tags) {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    }
+    let usage = this.namespaces.get(namespace);
+    if (!usage) {
+      usage = { keys: new Set(), bytes: 0 };
+      this.namespaces.set(namespace, usage);
+    }
+    usage.keys.add(key);
+    usage.bytes += size;
+    this.totalBytes += size;
+
+    // A namespace over its quota evicts its own entries before anyone else's
+    this.evict(namespace);
+    this.evict();
+    this.startSweep();
   }
 
   /**
@@ -34,20 +180,54 @@ class ServerCache {
    */
   get<T>(key: string): T | null {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
       return null;
     }
 
     // Check if the entry has expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
+    if (this.isExpired(key, entry)) {
       return null;
     }
 
+    this.touch(key, entry);
     return entry.data as T;
   }
 
+  /**
+   * Get a value from the cache, loading it on a miss
+   *
+   * Concurrent misses share a single loader call. An entry that has expired
+   * but is within its `staleTtl` is returned straight away and refreshed in
+   * the background; if the refresh fails, the stale entry keeps being served.
+   * Loaded values are not cached if their key or one of their tags was
+   * invalidated while loading, nor when the loader returns null.
+   * @param key Cache key
+   * @param loader Loads the value on a miss
+   * @param options Time to live, stale time and tags of a loaded value
+   * @returns The cached or loaded value
+   */
+  async getOrLoad<T>(
+    key: string,
+    loader: () => Promise<T | null>,
+    options: CacheLoadOptions<T> = {}
+  ): Promise<T | null> {
+    const entry = this.cache.get(key);
+    const now = Date.now();
+
+    if (entry && now <= entry.staleUntil) {
+      this.touch(key, entry);
+      if (now > entry.expiresAt) {
+        this.load(key, loader, options).catch(error => {
+          console.error(`Error refreshing cache entry ${key}:`, error);
+        });
+      }
+      return entry.data as T;
+    }
+
+    return this.load(key, loader, options);
+  }
+
   /**
    * Check if a key exists in the cache and is not expired
    * @param key Cache key
@@ -55,18 +235,13 @@ class ServerCache {
    */
   has(key: string): boolean {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
       return false;
     }
 
     // Check if the entry has expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key);
-      return false;
-    }
-
-    return true;
+    return !this.isExpired(key, entry);
   }
 
   /**
@@ -74,7 +249,8 @@ class ServerCache {
    * @param key Cache key
    */
   delete(key: string): void {
-    this.cache.delete(key);
+    this.recordInvalidation(this.invalidatedKeys, key);
+    this.remove(key);
   }
 
   /**
@@ -82,18 +258,61 @@ class ServerCache {
    * @param prefix Key prefix
    */
   deleteByPrefix(prefix: string): void {
+    this.recordInvalidation(this.invalidatedPrefixes, prefix);
     for (const key of this.cache.keys()) {
       if (key.startsWith(prefix)) {
-        this.cache.delete(key);
+        this.remove(key);
       }
     }
   }
 
+  /**
+   * Delete every entry set with a tag
+   * @param tag The tag passed to `set`
+   */
+  invalidateTag(tag: string): void {
+    this.recordInvalidation(this.invalidatedTags, tag);
+    const keys = this.tagIndex.get(tag);
+    if (!keys) {
+      return;
+    }
+    for (const key of [...keys]) {
+      this.remove(key);
+    }
+    this.tagIndex.delete(tag);
+  }
+
+  /**
+   * Delete every expired entry
+   * @returns Number of entries deleted
+   */
+  sweep(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.cache) {
+      if (now > entry.staleUntil) {
+        this.remove(key);
+        removed++;
+      }
+    }
+    if (this.cache.size === 0) {
+      this.stopSweep();
+    }
+    return removed;
+  }
+
   /**
    * Clear the entire cache
    */
   clear(): void {
+    if (this.loads.size > 0) {
+      this.clearedAt = ++this.sequence;
+    }
     this.cache.clear();
+    this.tagIndex.clear();
+    this.namespaces.clear();
+    this.totalBytes = 0;
+    this.stopSweep();
   }
 
   /**
@@ -111,6 +330,179 @@ class ServerCache {
   size(): number {
     return this.cache.size;
   }
+
+  /**
+   * Get the estimated memory taken by the cache
+   * @param namespace Only count the entries of this namespace
+   * @returns Estimated size in bytes
+   */
+  bytes(namespace?: string): number {
+    if (namespace === undefined) {
+      return this.totalBytes;
+    }
+    return this.namespaces.get(namespace)?.bytes ?? 0;
+  }
+
+  /**
+   * Check whether an entry has expired, removing it once it is too old to
+   * be served stale
+   */
+  private isExpired(key: string, entry: CacheEntry<any>): boolean {
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      this.remove(key);
+    }
+    return now > entry.expiresAt;
+  }
+
+  /**
+   * Note a delete for loads in flight to check against
+   */
+  private recordInvalidation(invalidated: Map<string, number>, name: string): void {
+    if (this.loads.size > 0) {
+      invalidated.set(name, ++this.sequence);
+    }
+  }
+
+  /**
+   * Check whether a key or any of its tags was deleted after a point in `sequence`
+   */
+  private invalidatedSince(startedAt: number, key: string, tags: string[]): boolean {
+    if (this.clearedAt > startedAt || (this.invalidatedKeys.get(key) ?? 0) > startedAt) {
+      return true;
+    }
+    for (const [prefix, at] of this.invalidatedPrefixes) {
+      if (at > startedAt && key.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return tags.some(tag => (this.invalidatedTags.get(tag) ?? 0) > startedAt);
+  }
+
+  /**
+   * Call a loader and cache its value, sharing the call with concurrent loads
+   */
+  private load<T>(
+    key: string,
+    loader: () => Promise<T | null>,
+    options: CacheLoadOptions<T>
+  ): Promise<T | null> {
+    const pending = this.loads.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const startedAt = this.sequence;
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        if (value !== null && value !== undefined) {
+          const { tags: getTags, ...setOptions } = options;
+          const tags = typeof getTags === 'function' ? getTags(value) : getTags;
+          // A value loaded across an invalidation may predate the write behind it
+          if (!this.invalidatedSince(startedAt, key, tags || [])) {
+            this.set(key, value, { ...setOptions, tags });
+          }
+        }
+        return value ?? null;
+      } finally {
+        this.loads.delete(key);
+        if (this.loads.size === 0) {
+          this.invalidatedKeys.clear();
+          this.invalidatedPrefixes.clear();
+          this.invalidatedTags.clear();
+        }
+      }
+    })();
+    this.loads.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Get the limits of a namespace
+   */
+  private getQuota(namespace: string): CacheQuota | undefined {
+    return this.options.namespaceQuotas?.[namespace] || this.options.namespaceQuota;
+  }
+
+  /**
+   * Evict least recently used entries until the cache, or one of its
+   * namespaces, is within its limits
+   * @param namespace The namespace to bring within its quota
+   */
+  private evict(namespace?: string): void {
+    if (namespace === undefined) {
+      while (exceeds(this.options, this.cache.size, this.totalBytes)) {
+        this.remove(this.cache.keys().next().value as string);
+      }
+      return;
+    }
+
+    const usage = this.namespaces.get(namespace);
+    const quota = this.getQuota(namespace);
+    while (usage && exceeds(quota, usage.keys.size, usage.bytes)) {
+      this.remove(usage.keys.values().next().value as string);
+    }
+  }
+
+  /**
+   * Mark an entry as the most recently used
+   */
+  private touch(key: string, entry: CacheEntry<any>): void {
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    const keys = this.namespaces.get(entry.namespace)?.keys;
+    keys?.delete(key);
+    keys?.add(key);
+  }
+
+  /**
+   * Start sweeping expired entries, unless already started
+   *
+   * The timer is unref'd so it never keeps the process alive.
+   */
+  private startSweep(): void {
+    const { sweepInterval } = this.options;
+    if (this.sweepTimer || !sweepInterval) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => this.sweep(), sweepInterval);
+    this.sweepTimer.unref?.();
+  }
+
+  private stopSweep(): void {
+    clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+
+  /**
+   * Remove an entry and forget its tags
+   * @param key Cache key
+   */
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return;
+    }
+    this.cache.delete(key);
+    for (const tag of entry.tags) {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    }
+
+    const usage = this.namespaces.get(entry.namespace);
+    if (usage) {
+      usage.keys.delete(key);
+      usage.bytes -= entry.size;
+      if (usage.keys.size === 0) {
+        this.namespaces.delete(entry.namespace);
+      }
+    }
+    this.totalBytes -= entry.size;
+  }
 }
 
 // Create a singleton instance
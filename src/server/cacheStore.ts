@@ -0,0 +1,125 @@
+/**
+ * Cache stores used by collection APIs
+ *
+ * APIs use the store passed as their `cacheStore` option, or else the one
+ * set by configureCollectionHooks, which defaults to the in-memory
+ * serverCache. A Redis store shares cached responses, and their
+ * invalidation, between server instances.
+ */
+
+import { CacheSetOptions, CacheStore, RedisCacheStoreOptions, RedisCommand } from '../shared/types';
+import serverCache from './cache';
+
+const DEFAULT_KEY_PREFIX = 'collection-hooks:';
+const DEFAULT_TTL = 5 * 60 * 1000; // 5 minutes
+const DEFAULT_SCAN_COUNT = 100;
+
+// Keys deleted by a single DEL, so huge tags do not block the server
+const DELETE_BATCH_SIZE = 500;
+
+let defaultStore: CacheStore = serverCache;
+
+/**
+ * Get the store used by APIs without a `cacheStore` option
+ */
+export function getCacheStore(): CacheStore {
+  return defaultStore;
+}
+
+/**
+ * Set the store used by APIs without a `cacheStore` option
+ *
+ * @param store The store, or undefined to go back to serverCache
+ */
+export function setCacheStore(store: CacheStore | undefined): void {
+  defaultStore = store || serverCache;
+}
+
+/**
+ * Escape the characters SCAN treats as a glob pattern
+ */
+function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]\\]/g, '\\$&');
+}
+
+/**
+ * Create a cache store kept in Redis
+ *
+ * Entries are stored as JSON strings that Redis expires after their TTL.
+ * Each tag is a set of the keys tagged with it, which expires with the
+ * longest-lived of them.
+ *
+ * Any Redis-protocol server works, through whichever client the app already
+ * uses: pass a function that sends a command and resolves with the reply.
+ *
+ * @param command Sends a command to the server
+ * @param options Key prefix, default TTL and SCAN batch size
+ * @returns The cache store
+ */
+export function createRedisCacheStore(
+  command: RedisCommand,
+  options: RedisCacheStoreOptions = {}
+): CacheStore {
+  const {
+    keyPrefix = DEFAULT_KEY_PREFIX,
+    defaultTTL = DEFAULT_TTL,
+    scanCount = DEFAULT_SCAN_COUNT,
+  } = options;
+
+  const entryKey = (key: string) => `${keyPrefix}entry:${key}`;
+  const tagKey = (tag: string) => `${keyPrefix}tag:${tag}`;
+
+  async function deleteKeys(keys: string[]) {
+    for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+      await command(['DEL', ...keys.slice(start, start + DELETE_BATCH_SIZE)]);
+    }
+  }
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const reply = await command(['GET', entryKey(key)]);
+      return reply === null || reply === undefined ? null : JSON.parse(String(reply)) as T;
+    },
+
+    async set<T>(key: string, value: T, setOptions: CacheSetOptions = {}): Promise<void> {
+      const { ttl = defaultTTL, tags = [] } = setOptions;
+      const expiry = String(Math.max(1, Math.ceil(ttl)));
+      const redisKey = entryKey(key);
+
+      await command(['SET', redisKey, JSON.stringify(value), 'PX', expiry]);
+      for (const tag of tags) {
+        await command(['SADD', tagKey(tag), redisKey]);
+        // A new set has no expiry (-1), and an existing one may expire too soon
+        const remaining = Number(await command(['PTTL', tagKey(tag)]));
+        if (remaining < Number(expiry)) {
+          await command(['PEXPIRE', tagKey(tag), expiry]);
+        }
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      await command(['DEL', entryKey(key)]);
+    },
+
+    async deleteByPrefix(prefix: string): Promise<void> {
+      const pattern = `${escapeGlob(entryKey(prefix))}*`;
+      let cursor = '0';
+      do {
+        const [next, keys] = await command([
+          'SCAN', cursor, 'MATCH', pattern, 'COUNT', String(scanCount),
+        ]) as [unknown, unknown[]];
+        cursor = String(next);
+        await deleteKeys(keys.map(String));
+      } while (cursor !== '0');
+    },
+
+    async invalidateTag(tag: string): Promise<void> {
+      const keys = (await command(['SMEMBERS', tagKey(tag)]) as unknown[]).map(String);
+      await deleteKeys(keys);
+      // Keys tagged in the meantime stay in the set, so they can still be invalidated
+      for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+        await command(['SREM', tagKey(tag), ...keys.slice(start, start + DELETE_BATCH_SIZE)]);
+      }
+    },
+  };
+}
@@ -0,0 +1,330 @@
+/**
+ * Change feed for the `subscribe` event stream
+ *
+ * Changes come from MongoDB change streams or, without a replica set, from
+ * the collection API's own write path.
+ */
+
+import { ChangeEvent, ChangeFeedOptions } from '../shared/types';
+
+/**
+ * Resolved change feed settings for a collection
+ */
+export interface ChangeFeedConfig {
+  source: 'auto' | 'changeStream' | 'writes';
+  heartbeatInterval: number;
+  preImages: boolean;
+}
+
+/**
+ * A change together with where it can be resumed from
+ */
+export interface FeedChange extends ChangeEvent {
+  token: string;
+  tenantId?: string;          // Tenant of the changed item, for scoping
+}
+
+/**
+ * Callbacks used to write to an open event stream
+ */
+export interface EventStreamWriter {
+  send: (change: FeedChange) => void;
+  reset: () => void;          // Tell the client its view is stale and must be reloaded
+  close: () => void;
+}
+
+// Changes from the write path kept per collection so clients can resume
+export const REPLAY_BUFFER_SIZE = 500;
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15 * 1000; // 15 seconds
+
+// Write-path tokens are only valid within the process that issued them
+const WRITE_TOKEN_EPOCH = `w${Date.now().toString(36)}`;
+
+const CHANGE_STREAM_TOKEN_PREFIX = 'c.';
+
+interface WriteFeed {
+  sequence: number;
+  buffer: { sequence: number; change: FeedChange }[];
+  listeners: Set<(change: FeedChange) => void>;
+}
+
+// Shared by every API for the same collection, so all of them see each other's writes
+const writeFeeds = new Map<string, WriteFeed>();
+
+function getWriteFeed(collectionName: string): WriteFeed {
+  let feed = writeFeeds.get(collectionName);
+  if (!feed) {
+    feed = { sequence: 0, buffer: [], listeners: new Set() };
+    writeFeeds.set(collectionName, feed);
+  }
+  return feed;
+}
+
+/**
+ * Resolve the `changeFeed` API option
+ *
+ * @param option The option passed to createCollectionApi
+ * @returns The resolved settings
+ */
+export function resolveChangeFeed(option: ChangeFeedOptions | undefined): ChangeFeedConfig {
+  const {
+    source = 'auto',
+    heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL,
+    preImages = false,
+  } = option || {};
+  return { source, heartbeatInterval, preImages };
+}
+
+/**
+ * Check whether opening a change stream failed because the server does not
+ * support them, rather than for a reason that may go away
+ *
+ * @param error The error opening the change stream
+ * @returns True if the server is not a replica set
+ */
+export function isChangeStreamUnsupported(error: unknown): boolean {
+  const { code, message } = (error || {}) as { code?: unknown; message?: unknown };
+  // 40573: "The $changeStream stage is only supported on replica sets"
+  return code === 40573 || (typeof message === 'string' && /only supported on replica sets/i.test(message));
+}
+
+/**
+ * Record a change made through the collection API
+ *
+ * @param collectionName The MongoDB collection name
+ * @param change The change, without a token
+ */
+export function publishChange(
+  collectionName: string,
+  change: ChangeEvent & { tenantId?: string }
+): void {
+  const feed = getWriteFeed(collectionName);
+  const sequence = ++feed.sequence;
+  const published = { ...change, token: `${WRITE_TOKEN_EPOCH}.${sequence}` };
+
+  feed.buffer.push({ sequence, change: published });
+  if (feed.buffer.length > REPLAY_BUFFER_SIZE) {
+    feed.buffer.shift();
+  }
+
+  for (const listener of feed.listeners) {
+    listener(published);
+  }
+}
+
+/**
+ * Listen for changes made through the collection API
+ *
+ * Changes after `resumeToken` that are still buffered are replayed first.
+ *
+ * @param collectionName The MongoDB collection name
+ * @param resumeToken Token of the last change the client received, if any
+ * @param listener Called with every change
+ * @returns A function that stops listening, and whether the client can
+ * resume without missing changes
+ */
+export function listenForChanges(
+  collectionName: string,
+  resumeToken: string | null,
+  listener: (change: FeedChange) => void
+): { stop: () => void; resumed: boolean } {
+  const feed = getWriteFeed(collectionName);
+  let resumed = true;
+
+  if (resumeToken !== null) {
+    const [epoch, rawSequence] = resumeToken.split('.');
+    const sequence = Number(rawSequence);
+    const oldest = feed.buffer.length > 0 ? feed.buffer[0].sequence : feed.sequence + 1;
+
+    // Tokens from another process, or older than the buffer, leave a gap
+    if (epoch !== WRITE_TOKEN_EPOCH || !Number.isInteger(sequence) || sequence < oldest - 1) {
+      resumed = false;
+    } else {
+      for (const entry of feed.buffer) {
+        if (entry.sequence > sequence) {
+          listener(entry.change);
+        }
+      }
+    }
+  }
+
+  feed.listeners.add(listener);
+  return { stop: () => feed.listeners.delete(listener), resumed };
+}
+
+/**
+ * Encode a change stream resume token as an event ID
+ *
+ * @param resumeToken The `_id` of a change stream event
+ * @returns The event ID
+ */
+export function encodeChangeStreamToken(resumeToken: unknown): string {
+  return CHANGE_STREAM_TOKEN_PREFIX
+    + Buffer.from(JSON.stringify(resumeToken)).toString('base64url');
+}
+
+/**
+ * Decode an event ID issued for a change stream event
+ *
+ * @param token The event ID sent back by the client
+ * @returns The change stream resume token, or null if the ID was not
+ * issued for a change stream
+ */
+export function decodeChangeStreamToken(token: string): unknown {
+  if (!token.startsWith(CHANGE_STREAM_TOKEN_PREFIX)) {
+    return null;
+  }
+  try {
+    const json = Buffer.from(token.slice(CHANGE_STREAM_TOKEN_PREFIX.length), 'base64url');
+    return JSON.parse(json.toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Translate a MongoDB change stream event into a change
+ *
+ * With soft delete, moving an item to the trash is reported as a delete and
+ * restoring it as an insert. Changes to trashed items are skipped.
+ *
+ * @param event The change stream event
+ * @param fields The collection's soft delete and tenant fields
+ * @returns The change, 'skip' for events subscribers do not see, or
+ * 'unknown' for deletes whose item cannot be identified without a pre-image
+ */
+export function fromChangeStreamEvent(
+  event: Record<string, any>,
+  fields: { softDeleteField?: string; tenantField?: string }
+): FeedChange | 'skip' | 'unknown' {
+  const { softDeleteField, tenantField } = fields;
+  const token = encodeChangeStreamToken(event._id);
+  const tenantOf = (doc: Record<string, any>) =>
+    tenantField ? (doc[tenantField] as string | undefined) : undefined;
+
+  if (event.operationType === 'delete') {
+    const previous = event.fullDocumentBeforeChange;
+    if (!previous) {
+      return 'unknown';
+    }
+    // Purging from the trash changes nothing subscribers can see
+    if (softDeleteField && previous[softDeleteField] != null) {
+      return 'skip';
+    }
+    return { id: previous.id, operation: 'delete', data: null, token, tenantId: tenantOf(previous) };
+  }
+
+  if (!['insert', 'update', 'replace'].includes(event.operationType)) {
+    return 'skip';
+  }
+
+  // The document may be gone by the time an update is looked up
+  const doc = event.fullDocument;
+  if (!doc) {
+    return 'skip';
+  }
+
+  const tenantId = tenantOf(doc);
+  if (softDeleteField) {
+    const { updatedFields = {}, removedFields = [] } = event.updateDescription || {};
+    if (doc[softDeleteField] != null) {
+      return softDeleteField in updatedFields
+        ? { id: doc.id, operation: 'delete', data: null, token, tenantId }
+        : 'skip';
+    }
+    if (removedFields.includes(softDeleteField)) {
+      return { id: doc.id, operation: 'insert', data: doc, token, tenantId };
+    }
+  }
+
+  const operation = event.operationType === 'insert' ? 'insert' : 'update';
+  return { id: doc.id, operation, data: doc, token, tenantId };
+}
+
+/**
+ * Format a change as a Server-Sent Event
+ */
+function formatEvent(change: FeedChange): string {
+  const { id, operation, data, token } = change;
+  return `id: ${token}\ndata: ${JSON.stringify({ id, operation, data })}\n\n`;
+}
+
+/**
+ * Create a Server-Sent Events stream
+ *
+ * A heartbeat comment is written every `heartbeatInterval` milliseconds so
+ * proxies keep the connection open. The stream closes when the request is
+ * aborted, the client cancels it, or `start` closes it.
+ *
+ * @param signal The request's abort signal
+ * @param heartbeatInterval Milliseconds between heartbeats
+ * @param start Starts sending changes and returns a function that stops
+ * @returns The event stream
+ */
+export function createEventStream(
+  signal: AbortSignal | undefined,
+  heartbeatInterval: number,
+  start: (writer: EventStreamWriter) => Promise<() => void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let stop: (() => void) | undefined;
+  let closed = false;
+
+  function write(text: string) {
+    if (!closed) {
+      controller.enqueue(encoder.encode(text));
+    }
+  }
+
+  function close() {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    clearInterval(heartbeat);
+    signal?.removeEventListener('abort', close);
+    stop?.();
+    try {
+      controller.close();
+    } catch {
+      // Already closed by the client
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      controller = streamController;
+
+      // Send something straight away so the response headers are flushed
+      write(': connected\n\n');
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), heartbeatInterval);
+      heartbeat.unref?.();
+      signal?.addEventListener('abort', close);
+
+      try {
+        stop = await start({
+          send: change => write(formatEvent(change)),
+          reset: () => write('event: reset\ndata: {}\n\n'),
+          close,
+        });
+      } catch (error) {
+        console.error('Error starting change feed:', error);
+        close();
+        return;
+      }
+
+      // The client may have gone away while the feed was starting
+      if (closed) {
+        stop();
+      } else if (signal?.aborted) {
+        close();
+      }
+    },
+    cancel() {
+      close();
+    },
+  });
+}
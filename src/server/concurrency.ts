@@ -0,0 +1,86 @@
+/**
+ * Optimistic concurrency helpers for collection endpoints
+ */
+
+import { ConcurrencyOptions } from '../shared/types';
+
+/**
+ * Resolved concurrency settings for a collection
+ */
+export interface ConcurrencyConfig {
+  versionField: string;
+}
+
+/**
+ * Resolve the `concurrency` API option
+ *
+ * @param option The option passed to createCollectionApi
+ * @returns The resolved settings, or null if concurrency control is disabled
+ */
+export function resolveConcurrency(
+  option: boolean | ConcurrencyOptions | undefined
+): ConcurrencyConfig | null {
+  if (!option) {
+    return null;
+  }
+  const { versionField = '_version' } = option === true ? {} : option;
+  return { versionField };
+}
+
+/**
+ * Get a document's version, treating documents written before concurrency
+ * control was enabled as version 0
+ *
+ * @param doc The document
+ * @param config The collection's concurrency settings
+ * @returns The document's version
+ */
+export function getVersion(doc: Record<string, any>, config: ConcurrencyConfig): number {
+  const version = doc[config.versionField];
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Format a document version as a strong ETag
+ *
+ * Reads add a hash of the response body, since callers with different
+ * roles or tenants can receive different bodies for the same version.
+ *
+ * @param version The document version
+ * @param representation A hash of the response body, for reads
+ * @returns The quoted ETag value
+ */
+export function formatVersionETag(version: number, representation?: string): string {
+  return representation ? `"${version}.${representation}"` : `"${version}"`;
+}
+
+/**
+ * Parse the `If-Match` header of a write request
+ *
+ * @param header The raw header value
+ * @returns The expected version, or null if the header is missing or is not
+ * an ETag produced by formatVersionETag
+ */
+export function parseIfMatch(header: string | null): number | null {
+  const match = header ? /^"(\d+)(?:\.[\w-]+)?"$/.exec(header.trim()) : null;
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Build the filter that matches a document only at the expected version
+ *
+ * @param id The document id
+ * @param expected The version from `If-Match`
+ * @param config The collection's concurrency settings
+ * @returns The MongoDB filter
+ */
+export function versionFilter(
+  id: string,
+  expected: number,
+  config: ConcurrencyConfig
+): Record<string, unknown> {
+  // Version 0 also matches documents that have never been versioned
+  return expected === 0
+    ? { id, [config.versionField]: { $in: [0, null] } }
+    : { id, [config.versionField]: expected };
+}
@@ -1,4 +1,9 @@
 import { Db, MongoClient } from 'mongodb';
+import { CacheStore, InvalidationBus, ServerCacheOptions } from '../shared/types';
+import serverCache from './cache';
+import { setCacheStore } from './cacheStore';
+import { setEnsureIndexesOnConnect } from './indexes';
+import { setInvalidationBus } from './invalidationBus';
 
 /**
  * Configuration options for collection hooks
@@ -8,6 +13,10 @@ export interface CollectionHooksConfig {
   dbName?: string;
   options?: any;
   debug?: boolean;
+  ensureIndexes?: boolean;    // Create declared indexes once connected, logging drift
+  cache?: ServerCacheOptions; // Limits of serverCache
+  cacheStore?: CacheStore;    // Where collection APIs cache responses (default serverCache)
+  invalidationBus?: InvalidationBus; // Shares cache invalidations with other server instances
 }
 
 /**
@@ -27,6 +36,19 @@ export interface AdvancedCollectionHooksConfig {
   
   // Debug mode - when true, logs helpful connection information
   debug?: boolean;
+  
+  // Create the indexes declared by collection APIs once connected, logging drift
+  ensureIndexes?: boolean;
+
+  // Entry and memory limits of serverCache
+  cache?: ServerCacheOptions;
+
+  // Where collection APIs cache responses, e.g. a Redis store shared by every
+  // server instance (defaults to serverCache)
+  cacheStore?: CacheStore;
+
+  // Publishes cache invalidations to other server instances and applies theirs
+  invalidationBus?: InvalidationBus;
 }
 
 // Internal state
@@ -135,6 +157,24 @@ export function configureCollectionHooks(
     debugLog(errorMsg);
     throw new Error(errorMsg);
   }
+  
+  if (config.ensureIndexes) {
+    debugLog('Ensuring declared indexes once connected');
+  }
+  setEnsureIndexesOnConnect(!!config.ensureIndexes);
+
+  if (config.cache) {
+    debugLog('Configuring server cache limits');
+    serverCache.configure(config.cache);
+  }
+  if (config.cacheStore) {
+    debugLog('Using a custom cache store');
+  }
+  setCacheStore(config.cacheStore);
+  if (config.invalidationBus) {
+    debugLog('Sharing cache invalidations through an invalidation bus');
+  }
+  setInvalidationBus(config.invalidationBus);
 }
 
 /**
@@ -1,8 +1,154 @@
 import { z } from 'zod';
-import { ObjectId } from 'mongodb';
-import { ApiOptions } from '../shared/types';
-import cache from './cache';
+import { ChangeStreamOptions, ObjectId } from 'mongodb';
+import {
+  ApiOptions,
+  BulkItemResult,
+  CacheSetOptions,
+  ChangeOperation,
+  CollectionOperation,
+  HookContext,
+  ImportSummary,
+} from '../shared/types';
 import { getCollection } from './database';
+import { getCacheStore } from './cacheStore';
+import {
+  attachInvalidationBus,
+  getInvalidationBus,
+  publishInvalidation,
+} from './invalidationBus';
+import {
+  InvalidQueryError,
+  getQueryCacheSuffix,
+  parseFieldsQuery,
+  parseFilterQuery,
+  parseSortQuery,
+} from './query';
+import { PageRequest, applyCursor, encodeCursor, getPageSort, parsePageRequest } from './pagination';
+import {
+  formatVersionETag,
+  getVersion,
+  parseIfMatch,
+  resolveConcurrency,
+  versionFilter,
+} from './concurrency';
+import { computeETag, matchesIfNoneMatch } from './etag';
+import {
+  PURGE_INTERVAL,
+  excludeDeleted,
+  getRetentionCutoff,
+  onlyDeleted,
+  resolveSoftDelete,
+} from './softDelete';
+import { buildPatchUpdate, createPatchSchema, formatZodIssues } from './validation';
+import { InvalidBodyError, clientErrorResponse } from './errors';
+import { checkAuthorization } from './authorization';
+import { MissingTenantError, resolveTenantOptions, scopeToTenant } from './tenancy';
+import {
+  ForbiddenFieldsError,
+  formatForbiddenFields,
+  getRoleCacheSuffix,
+  getUnreadableFields,
+  getUnwritableFields,
+  redactFields,
+  resolveFieldPermissions,
+} from './fieldPermissions';
+import {
+  EventStreamWriter,
+  FeedChange,
+  createEventStream,
+  decodeChangeStreamToken,
+  fromChangeStreamEvent,
+  isChangeStreamUnsupported,
+  listenForChanges,
+  publishChange,
+  resolveChangeFeed,
+} from './changeFeed';
+import {
+  EXPORT_BATCH_SIZE,
+  IMPORT_BATCH_SIZE,
+  MAX_REPORTED_ERRORS,
+  TRANSFER_CONTENT_TYPES,
+  TransferFormat,
+  detectImportFormat,
+  formatCsvRow,
+  formatRecords,
+  getCsvColumns,
+  negotiateExportFormat,
+  readImportRecords,
+  readTextChunks,
+} from './dataTransfer';
+import { declareIndexes } from './indexes';
+
+/**
+ * Read the JSON body of a request
+ * 
+ * Handles both real and mock Request objects.
+ * 
+ * @param req The incoming request
+ * @returns The parsed body
+ * @throws InvalidBodyError if the body is not valid JSON
+ */
+async function readRequestBody(req: Request): Promise<any> {
+  try {
+    return await req.json();
+  } catch (jsonError) {
+    const body: unknown = req.body;
+    if (!body) {
+      return {};
+    }
+    // A real request whose stream failed to parse
+    if (typeof (body as ReadableStream).getReader === 'function') {
+      throw new InvalidBodyError();
+    }
+    if (typeof body !== 'string') {
+      // Mock requests may carry an already-parsed body (for tests)
+      return body;
+    }
+    try {
+      return JSON.parse(body);
+    } catch {
+      throw new InvalidBodyError();
+    }
+  }
+}
+
+/**
+ * Build the result for a bulk item that could not be written
+ * 
+ * @param index Position of the item in the request body
+ * @param id The item's id, if known
+ * @param error The error raised while preparing the item
+ * @returns The bulk item result
+ */
+function failedBulkItem(index: number, id: unknown, error: unknown): BulkItemResult {
+  const result: BulkItemResult = {
+    index,
+    id: typeof id === 'string' ? id : undefined,
+    status: error instanceof z.ZodError ? 'invalid' : 'error',
+    error: error instanceof Error ? error.message : String(error),
+  };
+  if (error instanceof z.ZodError) {
+    result.error = 'Validation failed';
+    result.issues = formatZodIssues(error);
+  } else if (error instanceof ForbiddenFieldsError) {
+    result.status = 'forbidden';
+    result.issues = formatForbiddenFields(error);
+  }
+  return result;
+}
+
+/**
+ * Count a failed import row, listing it unless enough rows were listed
+ * 
+ * @param summary The import summary, updated in place
+ * @param result The failed row
+ */
+function recordImportFailure(summary: ImportSummary, result: BulkItemResult) {
+  summary.failed += 1;
+  if (summary.errors.length < MAX_REPORTED_ERRORS) {
+    summary.errors.push(result);
+  }
+}
 
 /**
  * Create a collection API endpoint factory
@@ -22,39 +168,539 @@ export function createCollectionApi<T extends { id: string }>(
 ) {
   const {
     cacheTime = 60 * 60 * 1000, // 1 hour default cache time
+    cacheStore,
+    staleTime = 0,
+    invalidationBus,
     validateOnWrite = true,
+    filters = {},
+    pagination = false,
+    concurrency = false,
+    softDelete = false,
+    tenant,
+    fieldPermissions,
+    authorize,
+    changeFeed,
+    indexes = [],
     hooks = {},
   } = options;
 
+  const paginationOptions = pagination === true ? {} : pagination || null;
+  const patchSchema = createPatchSchema(schema);
+  const concurrencyConfig = resolveConcurrency(concurrency);
+  const softDeleteConfig = resolveSoftDelete(softDelete);
+  const tenantConfig = resolveTenantOptions(tenant);
+  const fieldConfig = resolveFieldPermissions(fieldPermissions);
+  const changeFeedConfig = resolveChangeFeed(changeFeed);
+  const loadsExisting = Boolean(
+    authorize
+      || hooks.beforeWrite
+      || hooks.afterWrite
+      || hooks.beforeUpdate
+      || hooks.beforeDelete
+      || hooks.afterDelete
+  );
+  
+  // getById and every write look items up by id, so it is always indexed
+  declareIndexes(collectionName, [
+    ...indexes,
+    {
+      fields: tenantConfig ? { [tenantConfig.field]: 1, id: 1 } : { id: 1 },
+      unique: true,
+    },
+  ]);
+  // Apply other instances' invalidations to this API's store
+  if (invalidationBus) {
+    attachInvalidationBus(invalidationBus, () => cacheStore || getCacheStore());
+  }
+  let lastPurgeAt = 0;
+  // Set once the server has rejected a change stream, e.g. without a replica set
+  let changeStreamsUnavailable = false;
+
   /**
-   * Get all items from the collection
+   * Get the cache key prefix for a tenant's view of the collection
    */
-  async function getAll(req: Request) {
-    const skipCache = req.method === 'POST';
-    const cacheKey = `collection:${collectionName}:all`;
+  function cachePrefix(tenantId?: string) {
+    return tenantId === undefined
+      ? `collection:${collectionName}`
+      : `collection:${collectionName}@${encodeURIComponent(tenantId)}`;
+  }
+
+  /**
+   * Restrict a filter to the tenant's documents that are not in the trash
+   */
+  function liveFilter(filter: Record<string, any>, tenantId?: string) {
+    return excludeDeleted(scopeToTenant(filter, tenantConfig, tenantId), softDeleteConfig);
+  }
+
+  /**
+   * Restrict a filter to the tenant's documents that are in the trash
+   */
+  function trashFilter(filter: Record<string, any>, tenantId?: string) {
+    return onlyDeleted(scopeToTenant(filter, tenantConfig, tenantId), softDeleteConfig!);
+  }
+
+  /**
+   * Stamp the tenant on a document before it is written
+   */
+  function withTenant<D>(doc: D, tenantId?: string): D {
+    return tenantConfig && tenantId !== undefined ? { ...doc, [tenantConfig.field]: tenantId } : doc;
+  }
+
+  /**
+   * Get the cache tag of the tenant's lists
+   * 
+   * Every write invalidates it, so lists need no item tags.
+   */
+  function collectionTag(tenantId?: string) {
+    return cachePrefix(tenantId);
+  }
+
+  /**
+   * Get the cache tag of an item's cached responses
+   */
+  function itemTag(id: string, tenantId?: string) {
+    return `${cachePrefix(tenantId)}:${id}`;
+  }
+
+  /**
+   * Read a cached response
+   * 
+   * A store that cannot be reached counts as a miss, so reads fall back to
+   * the database.
+   */
+  async function readCache<R>(key: string): Promise<R | null> {
+    try {
+      return await (cacheStore || getCacheStore()).get<R>(key);
+    } catch (error) {
+      console.error(`Error reading ${collectionName} cache:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a response, logging rather than failing if the store cannot be reached
+   */
+  async function writeCache(key: string, value: unknown, setOptions: CacheSetOptions) {
+    try {
+      await (cacheStore || getCacheStore()).set(key, value, setOptions);
+    } catch (error) {
+      console.error(`Error writing ${collectionName} cache:`, error);
+    }
+  }
+
+  /**
+   * Remove every cached response with a tag
+   * 
+   * The write has already happened, so a store that cannot be reached is
+   * logged rather than failing the request.
+   */
+  async function invalidateTag(tag: string) {
+    try {
+      await (cacheStore || getCacheStore()).invalidateTag(tag);
+    } catch (error) {
+      console.error(`Error invalidating ${collectionName} cache:`, error);
+    }
+  }
+
+  /**
+   * Get a cached response, loading and caching it on a miss
+   * 
+   * Stores with getOrLoad merge concurrent misses into a single load and
+   * serve expired responses for `staleTime` while refreshing them.
+   * 
+   * @param key Cache key of the response
+   * @param loader Loads the response, or null if there is none to cache
+   * @param tags Gets the cache tags of a loaded response
+   */
+  async function loadCached<R>(
+    key: string,
+    loader: () => Promise<R | null>,
+    tags: (value: R) => string[]
+  ): Promise<R | null> {
+    const store = cacheStore || getCacheStore();
+    if (store.getOrLoad) {
+      return store.getOrLoad(key, loader, { ttl: cacheTime, staleTtl: staleTime, tags });
+    }
+
+    const cachedData = await readCache<R>(key);
+    if (cachedData) {
+      return cachedData;
+    }
+    const value = await loader();
+    if (value !== null) {
+      await writeCache(key, value, { ttl: cacheTime, tags: tags(value) });
+    }
+    return value;
+  }
+
+  /**
+   * Remove the tenant's cached lists, whatever their filters, page or fields,
+   * and every cached response that includes one of the items
+   * 
+   * The tags are also published to the invalidation bus, if any, for other
+   * server instances to remove.
+   * 
+   * @param ids IDs of the items written
+   */
+  async function invalidate(tenantId: string | undefined, ids: string[] = []) {
+    const tags = [collectionTag(tenantId), ...ids.map(id => itemTag(id, tenantId))];
+    for (const tag of tags) {
+      await invalidateTag(tag);
+    }
+    
+    const bus = invalidationBus || getInvalidationBus();
+    if (bus) {
+      await publishInvalidation(bus, { tags });
+    }
+  }
+
+  /**
+   * Report a change made through this API to `subscribe` streams
+   */
+  function publish(
+    operation: ChangeOperation,
+    id: string,
+    data: Record<string, any> | null,
+    tenantId?: string
+  ) {
+    publishChange(collectionName, { id, operation, data, tenantId });
+  }
+
+  /**
+   * Get the cache key suffix for the fields the caller may read
+   */
+  function roleCacheSuffix(context: HookContext) {
+    return fieldConfig ? getRoleCacheSuffix(fieldConfig, context.roles || []) : '';
+  }
+
+  /**
+   * Remove the fields the caller may not read from response data
+   */
+  function redact<D>(data: D, context: HookContext): D {
+    return fieldConfig ? redactFields(data, fieldConfig, context.roles || []) : data;
+  }
+
+  /**
+   * Reject a write body that sets or removes fields the caller may not write
+   * 
+   * @throws ForbiddenFieldsError if the body contains protected fields
+   */
+  function assertWritable(body: unknown, context: HookContext) {
+    if (!fieldConfig || typeof body !== 'object' || body === null) {
+      return;
+    }
+    const forbidden = getUnwritableFields(
+      body as Record<string, unknown>,
+      fieldConfig,
+      context.roles || []
+    );
+    if (forbidden.length > 0) {
+      throw new ForbiddenFieldsError(forbidden);
+    }
+  }
+
+  /**
+   * Reject filtering or sorting by a field the caller may not read, as the
+   * results would reveal its values
+   * 
+   * @throws ForbiddenFieldsError if any of the fields is hidden from the caller
+   */
+  function assertQueryable(fields: string[], context: HookContext) {
+    if (!fieldConfig) {
+      return;
+    }
+    const unreadable = getUnreadableFields(fields, fieldConfig, context.roles || []);
+    if (unreadable.length > 0) {
+      throw new ForbiddenFieldsError(unreadable, 'Not allowed to filter or sort by these fields');
+    }
+  }
+
+  /**
+   * Build response headers, adding the document's version as an ETag
+   * when concurrency control is enabled
+   */
+  function itemHeaders(doc: Record<string, any> | null): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (concurrencyConfig && doc) {
+      headers.ETag = formatVersionETag(getVersion(doc, concurrencyConfig));
+    }
+    return headers;
+  }
+
+  /**
+   * Serialize a read result with a strong ETag, answering 304 Not Modified
+   * when the client's If-None-Match header already names it
+   * 
+   * With concurrency control, the ETag of a single document also carries
+   * its version so it can be sent back as If-Match. The body hash keeps
+   * callers who see different fields or tenants from matching each
+   * other's copies.
+   * 
+   * @param doc The stored document, for its version
+   */
+  function conditionalResponse(
+    req: Request,
+    result: unknown,
+    doc: Record<string, any> | null = null
+  ) {
+    const body = JSON.stringify(result);
+    const hash = computeETag(body);
+    const etag = concurrencyConfig && doc
+      ? formatVersionETag(getVersion(doc, concurrencyConfig), hash.slice(1, -1))
+      : hash;
+    
+    // POST reads are explicit cache-bypassing refreshes and always get a body
+    if (req.method !== 'POST' && matchesIfNoneMatch(req.headers.get('If-None-Match'), etag)) {
+      return new Response(null, {
+        status: 304,
+        headers: { ETag: etag },
+      });
+    }
+    
+    return new Response(body, {
+      headers: { 'Content-Type': 'application/json', ETag: etag },
+    });
+  }
 
-    // Check cache first if not skipping
-    if (!skipCache) {
-      const cachedData = cache.get<{ success: boolean; data: T[]; cached: boolean }>(cacheKey);
-      if (cachedData) {
-        return new Response(JSON.stringify(cachedData), {
+  /**
+   * Respond to a write whose version check matched no document
+   * 
+   * Returns 404 if the item does not exist, otherwise 412 with the current
+   * document so the client can merge and retry.
+   */
+  async function versionConflict(id: string, context: HookContext) {
+    const collection = await getCollection(collectionName);
+    const current = await collection.findOne(liveFilter({ id }, context.tenantId));
+    
+    if (!current) {
+      return new Response(
+        JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+        { 
+          status: 404,
           headers: { 'Content-Type': 'application/json' },
-        });
+        }
+      );
+    }
+    
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: `Item with ID ${id} has been modified`,
+        data: redact({ ...current, _id: current._id?.toString() }, context),
+      }),
+      { 
+        status: 412,
+        headers: itemHeaders(current),
+      }
+    );
+  }
+
+  /**
+   * Response for a write that is missing a usable If-Match header
+   */
+  function preconditionRequired() {
+    return new Response(
+      JSON.stringify({ success: false, error: 'If-Match header with the item ETag is required' }),
+      { 
+        status: 428,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  /**
+   * Response for a delete that the beforeDelete hook refused
+   */
+  function deleteBlocked(id: string) {
+    return new Response(
+      JSON.stringify({ success: false, error: `Item with ID ${id} cannot be deleted` }),
+      { 
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  /**
+   * Permanently delete trashed items older than the retention period
+   * 
+   * Runs at most once per PURGE_INTERVAL so it can be called from request
+   * handlers without a background timer.
+   */
+  async function purgeExpiredIfDue() {
+    const cutoff = softDeleteConfig && getRetentionCutoff(softDeleteConfig);
+    if (!softDeleteConfig || !cutoff || Date.now() - lastPurgeAt < PURGE_INTERVAL) {
+      return;
+    }
+    
+    lastPurgeAt = Date.now();
+    const collection = await getCollection(collectionName);
+    await collection.deleteMany({ [softDeleteConfig.field]: { $lt: cutoff } });
+  }
+
+  /**
+   * Response for trash operations on a collection without soft delete
+   */
+  function softDeleteDisabled() {
+    return new Response(
+      JSON.stringify({ success: false, error: `Soft delete is not enabled for ${collectionName}` }),
+      { 
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  /**
+   * Resolve the request's tenant, run the `authorize` option and build the
+   * context passed to hooks
+   * 
+   * When `existingFilter` is given and `authorize` or a write hook needs it,
+   * the stored document is loaded first, so callbacks can check ownership or
+   * compare against the previous version.
+   * 
+   * @throws MissingTenantError if tenant scoping is enabled and the request
+   * has no tenant
+   * @throws AuthorizationError if the request is denied
+   */
+  async function prepareRequest(
+    req: Request,
+    operation: CollectionOperation,
+    context: { id?: string; body?: unknown } = {},
+    existingFilter?: Record<string, unknown>
+  ): Promise<HookContext> {
+    let tenantId: string | undefined;
+    if (tenantConfig) {
+      tenantId = (await tenantConfig.resolve(req)) ?? undefined;
+      if (tenantId === undefined) {
+        throw new MissingTenantError();
       }
     }
+    
+    let existing;
+    if (existingFilter && loadsExisting) {
+      const collection = await getCollection(collectionName);
+      existing = await collection.findOne(scopeToTenant(existingFilter, tenantConfig, tenantId));
+    }
+    
+    let principal;
+    if (authorize) {
+      principal = checkAuthorization(
+        await authorize(req, operation, { ...context, existing, tenantId })
+      );
+    }
+    
+    const roles = fieldConfig ? fieldConfig.getRoles(principal, req) : undefined;
+    return { req, operation, id: context.id, existing, principal, tenantId, roles };
+  }
+
+  /**
+   * Read a list of items for getAll or refreshCache
+   * 
+   * A refresh invalidates the collection's cached lists and caches the
+   * freshly loaded one, which is read exactly as getAll reads it.
+   */
+  async function readList(req: Request, operation: 'getAll' | 'refreshCache') {
+    const refresh = operation === 'refreshCache';
+    const skipCache = req.method === 'POST';
+    const { searchParams } = new URL(req.url, 'http://localhost');
+    const [errorLog, errorMessage] = refresh
+      ? [`Error refreshing ${collectionName} cache:`, `Failed to refresh ${collectionName} cache`]
+      : [`Error fetching ${collectionName}:`, `Failed to fetch ${collectionName}`];
 
+    // Authorize and parse URL filters before touching the cache so denied
+    // requests and invalid queries are rejected
+    let hookContext: HookContext;
+    let filter;
+    let sort;
+    let projection;
+    let page: PageRequest | null = null;
     try {
+      hookContext = await prepareRequest(req, operation);
+      filter = parseFilterQuery(searchParams, schema, filters);
+      sort = parseSortQuery(searchParams.get('sort'), schema);
+      projection = parseFieldsQuery(searchParams.get('fields'), schema);
+      if (paginationOptions) {
+        page = parsePageRequest(searchParams, schema, paginationOptions, sort);
+      }
+      
+      assertQueryable([...Object.keys(filter), ...Object.keys(sort || {})], hookContext);
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      if (error instanceof InvalidQueryError) {
+        return new Response(
+          JSON.stringify({ success: false, error: error.message }),
+          { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      console.error(errorLog, error);
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const cacheKey = `${cachePrefix(hookContext.tenantId)}:all`
+      + `${getQueryCacheSuffix(searchParams)}${roleCacheSuffix(hookContext)}`;
+
+    const load = async () => {
       // Prepare query
-      let query = {};
+      let query: any = filter;
       
       // Apply beforeRead hook if provided
       if (hooks.beforeRead) {
-        query = hooks.beforeRead(query);
+        query = await hooks.beforeRead(query, hookContext);
       }
       
+      // Scope to the tenant after the hook so it cannot widen the query,
+      // and hide items in the trash
+      query = liveFilter(query, hookContext.tenantId);
+      
       // Fetch data from MongoDB
       const collection = await getCollection(collectionName);
-      const items = await collection.find(query).toArray();
+      let items: any[];
+      let pageInfo = {};
+      
+      if (page) {
+        // Fetch one extra document to find out whether another page exists
+        let cursor = collection.find(applyCursor(query, page));
+        if (projection) {
+          // The sort key is needed to build the next cursor
+          cursor = cursor.project({ ...projection, [page.sortKey]: 1 });
+        }
+        items = await cursor
+          .sort(getPageSort(page))
+          .limit(page.limit + 1)
+          .toArray();
+        
+        const hasMore = items.length > page.limit;
+        if (hasMore) {
+          items = items.slice(0, page.limit);
+        }
+        
+        pageInfo = {
+          nextCursor: hasMore ? encodeCursor(items[items.length - 1], page.sortKey) : null,
+          hasMore,
+        };
+      } else {
+        let cursor = collection.find(query);
+        if (projection) {
+          cursor = cursor.project(projection);
+        }
+        if (sort) {
+          cursor = cursor.sort(sort);
+        }
+        items = await cursor.toArray();
+      }
       
       // Convert MongoDB documents to plain objects
       const data = items.map((item: any) => {
@@ -62,26 +708,901 @@ export function createCollectionApi<T extends { id: string }>(
       });
       
       // Apply afterRead hook if provided
-      const processedData = hooks.afterRead ? hooks.afterRead(data) : data;
+      const processedData = redact(
+        hooks.afterRead ? await hooks.afterRead(data, hookContext) : data,
+        hookContext
+      );
       
-      const result = {
+      return {
         success: true,
-        data: processedData,
+        data: processedData as T[],
         cached: false,
+        ...pageInfo,
       };
+    };
+
+    try {
+      if (refresh) {
+        // Delete the cached lists along with any filtered variants
+        await invalidate(hookContext.tenantId);
+        
+        const result = await load();
+        await writeCache(cacheKey, result, { ttl: cacheTime, tags: [collectionTag(hookContext.tenantId)] });
+        return conditionalResponse(req, result);
+      }
+      
+      // Check cache first if not skipping
+      const result = skipCache
+        ? await load()
+        : await loadCached(cacheKey, load, () => [collectionTag(hookContext.tenantId)]);
+      
+      return conditionalResponse(req, result);
+    } catch (error) {
+      console.error(errorLog, error);
+      return new Response(
+        JSON.stringify({ success: false, error: errorMessage }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Get all items from the collection
+   */
+  async function getAll(req: Request) {
+    return readList(req, 'getAll');
+  }
+
+  /**
+   * Get a single item by ID
+   */
+  async function getById(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    const skipCache = req.method === 'POST';
+    const { searchParams } = new URL(req.url, 'http://localhost');
+
+    let hookContext: HookContext;
+    let projection;
+    try {
+      hookContext = await prepareRequest(req, 'getById', { id });
+      projection = parseFieldsQuery(searchParams.get('fields'), schema);
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      if (error instanceof InvalidQueryError) {
+        return new Response(
+          JSON.stringify({ success: false, error: error.message }),
+          { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      console.error(`Error fetching ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to fetch ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // The version is needed for the ETag even when it was not requested
+    if (projection && concurrencyConfig) {
+      projection[concurrencyConfig.versionField] = 1;
+    }
+
+    // Projected responses are cached separately from the full document
+    const itemKey = `${cachePrefix(hookContext.tenantId)}:${id}`;
+    const cacheKey = (projection
+      ? `${itemKey}?fields=${Object.keys(projection).sort().join(',')}`
+      : itemKey) + roleCacheSuffix(hookContext);
+
+    // The stored document, for its version, when this request loaded it
+    let loadedItem: Record<string, any> | null = null;
+
+    const load = async () => {
+      // Fetch data from MongoDB
+      const collection = await getCollection(collectionName);
+      
+      // Apply beforeRead hook if provided, scoping to the tenant after it
+      let query: any = { id };
+      if (hooks.beforeRead) {
+        query = await hooks.beforeRead(query, hookContext);
+      }
+      const filter = liveFilter(query, hookContext.tenantId);
+      const item = projection
+        ? await collection.findOne(filter, { projection })
+        : await collection.findOne(filter);
+      
+      if (!item) {
+        return null;
+      }
+      
+      // Convert MongoDB document to plain object
+      const data = { ...item, _id: item._id?.toString() };
+      
+      // Apply afterRead hook if provided
+      const processedData = redact(
+        hooks.afterRead ? await hooks.afterRead(data, hookContext) : data,
+        hookContext
+      );
+      
+      loadedItem = item;
+      return {
+        success: true,
+        data: processedData as T,
+        cached: false,
+      };
+    };
+
+    try {
+      // Check cache first if not skipping
+      const result = skipCache
+        ? await load()
+        : await loadCached(cacheKey, load, () => [itemTag(id, hookContext.tenantId)]);
+      
+      if (!result) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Cached responses derive their version ETag from the response data
+      return conditionalResponse(req, result, loadedItem || result.data);
+    } catch (error) {
+      console.error(`Error fetching ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to fetch ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Create a new item
+   */
+  async function create(req: Request) {
+    try {
+      const body = await readRequestBody(req);
+      const hookContext = await prepareRequest(req, 'create', { body });
+      
+      // Reject protected fields before hooks add server-set values
+      assertWritable(body, hookContext);
+      
+      // Apply beforeWrite hook if provided
+      const processedBody = hooks.beforeWrite ? await hooks.beforeWrite(body, hookContext) : body;
+      
+      // Validate the request body against the schema
+      let validatedData: T;
+      if (validateOnWrite) {
+        validatedData = schema.parse(processedBody);
+      } else {
+        validatedData = processedBody as T;
+      }
+      
+      // New documents start at version 1
+      if (concurrencyConfig) {
+        validatedData = { ...validatedData, [concurrencyConfig.versionField]: 1 };
+      }
+      
+      // Documents always belong to the tenant that created them
+      validatedData = withTenant(validatedData, hookContext.tenantId);
+      
+      // Insert data into MongoDB
+      const collection = await getCollection(collectionName);
+      const result = await collection.insertOne(validatedData);
+      
+      const created = { ...validatedData, _id: result.insertedId.toString() };
+      
+      // Apply afterWrite hook if provided
+      const processedResult = redact(
+        hooks.afterWrite ? await hooks.afterWrite(created, hookContext) : created,
+        hookContext
+      );
+      
+      // Invalidate cache, including filtered list variants
+      await invalidate(hookContext.tenantId);
+      publish('insert', validatedData.id, created, hookContext.tenantId);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: processedResult,
+        }),
+        { headers: itemHeaders(validatedData) }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error creating ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to create ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Update an existing item
+   */
+  async function update(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    
+    try {
+      const body = await readRequestBody(req);
+      const hookContext = await prepareRequest(
+        req,
+        'update',
+        { id, body },
+        excludeDeleted({ id }, softDeleteConfig)
+      );
+      
+      const expectedVersion = concurrencyConfig ? parseIfMatch(req.headers.get('If-Match')) : null;
+      if (concurrencyConfig && expectedVersion === null) {
+        return preconditionRequired();
+      }
+      
+      // Reject protected fields before hooks add server-set values
+      assertWritable(body, hookContext);
+      
+      // Apply beforeWrite and beforeUpdate hooks if provided
+      let processedBody = hooks.beforeWrite ? await hooks.beforeWrite(body, hookContext) : body;
+      if (hooks.beforeUpdate) {
+        processedBody = await hooks.beforeUpdate(processedBody, hookContext);
+      }
+      
+      // Validate the request body against the schema
+      let validatedData: T;
+      if (validateOnWrite) {
+        validatedData = schema.parse({ ...processedBody, id });
+      } else {
+        validatedData = { ...processedBody, id } as T;
+      }
+      
+      // The body cannot move the item to another tenant
+      validatedData = withTenant(validatedData, hookContext.tenantId);
+      
+      // Update data in MongoDB, only matching the version the client last saw
+      const collection = await getCollection(collectionName);
+      let result;
+      if (concurrencyConfig && expectedVersion !== null) {
+        const { versionField } = concurrencyConfig;
+        const { [versionField]: ignored, ...fields } = validatedData as Record<string, any>;
+        const filter = liveFilter(
+          versionFilter(id, expectedVersion, concurrencyConfig),
+          hookContext.tenantId
+        );
+        result = await collection.updateOne(filter, {
+          $set: fields,
+          $inc: { [versionField]: 1 },
+        });
+        validatedData = { ...fields, [versionField]: expectedVersion + 1 } as T;
+      } else {
+        result = await collection.updateOne(
+          liveFilter({ id }, hookContext.tenantId),
+          { $set: validatedData }
+        );
+      }
+      
+      if (result.matchedCount === 0) {
+        if (concurrencyConfig) {
+          return versionConflict(id, hookContext);
+        }
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Apply afterWrite hook if provided
+      const processedResult = redact(
+        hooks.afterWrite ? await hooks.afterWrite(validatedData, hookContext) : validatedData,
+        hookContext
+      );
+      
+      // Invalidate cache, including filtered list variants
+      await invalidate(hookContext.tenantId, [id]);
+      publish('update', id, validatedData, hookContext.tenantId);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: processedResult,
+        }),
+        { headers: itemHeaders(validatedData) }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error updating ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to update ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Partially update an existing item
+   */
+  async function patch(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    
+    try {
+      const body = await readRequestBody(req);
+      // A merge patch must be an object; `null` or an array has no fields to apply
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new InvalidBodyError('Patch body must be a JSON object');
+      }
+      const hookContext = await prepareRequest(
+        req,
+        'patch',
+        { id, body },
+        excludeDeleted({ id }, softDeleteConfig)
+      );
+      
+      const expectedVersion = concurrencyConfig ? parseIfMatch(req.headers.get('If-Match')) : null;
+      if (concurrencyConfig && expectedVersion === null) {
+        return preconditionRequired();
+      }
+      
+      // Reject protected fields before hooks add server-set values
+      assertWritable(body, hookContext);
+      
+      // Apply beforeWrite and beforeUpdate hooks if provided
+      let processedBody = hooks.beforeWrite ? await hooks.beforeWrite(body, hookContext) : body;
+      if (hooks.beforeUpdate) {
+        processedBody = await hooks.beforeUpdate(processedBody, hookContext);
+      }
+      
+      // Validate only the supplied fields and split them into $set/$unset
+      const { $set, $unset } = buildPatchUpdate(patchSchema, processedBody, validateOnWrite);
+      
+      let filter: Record<string, unknown> = { id };
+      if (concurrencyConfig && expectedVersion !== null) {
+        // The version is maintained by the server, never by the patch body
+        delete $set[concurrencyConfig.versionField];
+        delete $unset[concurrencyConfig.versionField];
+        filter = versionFilter(id, expectedVersion, concurrencyConfig);
+      }
+      if (tenantConfig) {
+        // Items cannot be moved to another tenant
+        delete $set[tenantConfig.field];
+        delete $unset[tenantConfig.field];
+      }
+      filter = liveFilter(filter, hookContext.tenantId);
+      
+      const update: Record<string, any> = {};
+      if (Object.keys($set).length > 0) {
+        update.$set = $set;
+      }
+      if (Object.keys($unset).length > 0) {
+        update.$unset = $unset;
+      }
+      if (concurrencyConfig && Object.keys(update).length > 0) {
+        update.$inc = { [concurrencyConfig.versionField]: 1 };
+      }
+      
+      // Apply the change in MongoDB and read back the merged document
+      const collection = await getCollection(collectionName);
+      let item;
+      if (Object.keys(update).length > 0) {
+        const result = await collection.findOneAndUpdate(filter, update, {
+          returnDocument: 'after',
+          includeResultMetadata: true,
+        });
+        item = result.value;
+      } else {
+        item = await collection.findOne(filter);
+      }
+      
+      if (!item) {
+        if (concurrencyConfig) {
+          return versionConflict(id, hookContext);
+        }
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Convert MongoDB document to plain object
+      const data = { ...item, _id: item._id?.toString() };
+      
+      // Apply afterWrite hook if provided
+      const processedResult = redact(
+        hooks.afterWrite ? await hooks.afterWrite(data, hookContext) : data,
+        hookContext
+      );
+      
+      // Invalidate cache, including filtered list variants
+      await invalidate(hookContext.tenantId, [id]);
+      publish('update', id, data, hookContext.tenantId);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: processedResult,
+        }),
+        { headers: itemHeaders(item) }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error patching ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to patch ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Delete an item
+   */
+  async function remove(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    
+    try {
+      const hookContext = await prepareRequest(
+        req,
+        'remove',
+        { id },
+        excludeDeleted({ id }, softDeleteConfig)
+      );
+      const { tenantId } = hookContext;
+      
+      const expectedVersion = concurrencyConfig ? parseIfMatch(req.headers.get('If-Match')) : null;
+      if (concurrencyConfig && expectedVersion === null) {
+        return preconditionRequired();
+      }
+      
+      // Let the beforeDelete hook block the delete, e.g. while dependents exist
+      if (hooks.beforeDelete && (await hooks.beforeDelete(hookContext)) === false) {
+        return deleteBlocked(id);
+      }
+      
+      // Only match the version the client last saw
+      const filter = liveFilter(
+        concurrencyConfig && expectedVersion !== null
+          ? versionFilter(id, expectedVersion, concurrencyConfig)
+          : { id },
+        tenantId
+      );
+      
+      const collection = await getCollection(collectionName);
+      let removed: boolean;
+      
+      if (softDeleteConfig) {
+        // Move the item to the trash instead of deleting it
+        const update: Record<string, any> = { $set: { [softDeleteConfig.field]: new Date() } };
+        if (concurrencyConfig) {
+          update.$inc = { [concurrencyConfig.versionField]: 1 };
+        }
+        const result = await collection.updateOne(filter, update);
+        removed = result.matchedCount > 0;
+        await purgeExpiredIfDue();
+      } else {
+        const result = await collection.deleteOne(filter);
+        removed = result.deletedCount > 0;
+      }
+      
+      if (!removed) {
+        if (concurrencyConfig) {
+          return versionConflict(id, hookContext);
+        }
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Invalidate cache, including filtered list variants
+      await invalidate(tenantId, [id]);
+      publish('delete', id, null, tenantId);
+      
+      // Apply afterDelete hook if provided, e.g. to cascade the delete
+      if (hooks.afterDelete) {
+        await hooks.afterDelete(hookContext);
+      }
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { id },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error deleting ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to delete ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * List the items in the trash
+   */
+  async function listTrash(req: Request) {
+    if (!softDeleteConfig) {
+      return softDeleteDisabled();
+    }
+    
+    try {
+      const hookContext = await prepareRequest(req, 'listTrash');
+      await purgeExpiredIfDue();
+      
+      // Fetch trashed items from MongoDB, most recently deleted first
+      const collection = await getCollection(collectionName);
+      const items = await collection
+        .find(trashFilter({}, hookContext.tenantId))
+        .sort({ [softDeleteConfig.field]: -1 })
+        .toArray();
+      
+      // Convert MongoDB documents to plain objects
+      const data = items.map((item: any) => {
+        return { ...item, _id: item._id?.toString() };
+      });
+      
+      // Apply afterRead hook if provided
+      const processedData = redact(
+        hooks.afterRead ? await hooks.afterRead(data, hookContext) : data,
+        hookContext
+      );
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: processedData,
+          cached: false,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error fetching ${collectionName} trash:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to fetch ${collectionName} trash` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Restore an item from the trash
+   */
+  async function restore(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    
+    if (!softDeleteConfig) {
+      return softDeleteDisabled();
+    }
+    
+    try {
+      const { tenantId } = await prepareRequest(
+        req,
+        'restore',
+        { id },
+        onlyDeleted({ id }, softDeleteConfig)
+      );
+      
+      const update: Record<string, any> = { $unset: { [softDeleteConfig.field]: '' } };
+      if (concurrencyConfig) {
+        update.$inc = { [concurrencyConfig.versionField]: 1 };
+      }
+      
+      // Clear the deletion marker in MongoDB
+      const collection = await getCollection(collectionName);
+      const result = await collection.updateOne(trashFilter({ id }, tenantId), update);
+      
+      if (result.matchedCount === 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found in trash` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Invalidate cache so the item reappears in lists
+      await invalidate(tenantId, [id]);
+      
+      // Subscribers see the restored item appear again
+      const restored = await collection.findOne(liveFilter({ id }, tenantId));
+      if (restored) {
+        publish('insert', id, { ...restored, _id: restored._id?.toString() }, tenantId);
+      }
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { id },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error restoring ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to restore ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Permanently delete an item from the trash
+   */
+  async function purge(req: Request, context: { params: { id: string } }) {
+    const { id } = context.params;
+    
+    if (!softDeleteConfig) {
+      return softDeleteDisabled();
+    }
+    
+    try {
+      const { tenantId } = await prepareRequest(
+        req,
+        'purge',
+        { id },
+        onlyDeleted({ id }, softDeleteConfig)
+      );
+      
+      // Delete data from MongoDB, only if it is already in the trash
+      const collection = await getCollection(collectionName);
+      const result = await collection.deleteOne(trashFilter({ id }, tenantId));
+      
+      if (result.deletedCount === 0) {
+        return new Response(
+          JSON.stringify({ success: false, error: `Item with ID ${id} not found in trash` }),
+          { 
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      
+      // Invalidate cache, including filtered list variants
+      await invalidate(tenantId, [id]);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: { id },
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error purging ${collectionName} item:`, error);
+      return new Response(
+        JSON.stringify({ success: false, error: `Failed to purge ${collectionName} item` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  }
+
+  /**
+   * Run prepared bulk operations and record per-item write errors
+   * 
+   * @param operations The bulkWrite operations
+   * @param operationIndexes Index of the request item behind each operation
+   * @param results Per-item results, updated in place for failed writes
+   */
+  async function executeBulkWrite(
+    operations: any[],
+    operationIndexes: number[],
+    results: BulkItemResult[]
+  ) {
+    if (operations.length === 0) {
+      return;
+    }
+    
+    const collection = await getCollection(collectionName);
+    try {
+      await collection.bulkWrite(operations, { ordered: false });
+    } catch (error: any) {
+      // Unordered bulk writes report failed operations and apply the rest
+      if (!error?.writeErrors) {
+        throw error;
+      }
+      for (const writeError of [].concat(error.writeErrors)) {
+        const { index, errmsg } = writeError as { index: number; errmsg?: string };
+        const itemIndex = operationIndexes[index];
+        results[itemIndex] = {
+          ...results[itemIndex],
+          status: 'error',
+          error: errmsg || 'Write failed',
+        };
+      }
+    }
+  }
+
+  /**
+   * Find which of the given ids exist in the collection
+   * 
+   * Only the ids are loaded unless `authorize` or a write hook needs the
+   * stored documents.
+   */
+  async function findExisting(
+    ids: string[],
+    tenantId?: string
+  ): Promise<Map<string, Record<string, any>>> {
+    const collection = await getCollection(collectionName);
+    let cursor = collection.find(liveFilter({ id: { $in: ids } }, tenantId));
+    if (!loadsExisting) {
+      cursor = cursor.project({ id: 1 });
+    }
+    const existing = await cursor.toArray();
+    return new Map(existing.map((item: any) => [item.id, item]));
+  }
+
+  /**
+   * Invalidate the list and the items touched by a bulk request
+   */
+  async function invalidateBulk(results: BulkItemResult[], tenantId?: string) {
+    const ids = results
+      .filter(result => result.status === 'ok' && result.id)
+      .map(result => result.id as string);
+    await invalidate(tenantId, ids);
+  }
+
+  /**
+   * Report the items written by a bulk request to `subscribe` streams
+   * 
+   * @param documents Written documents by request index, empty for deletes
+   */
+  function publishBulk(
+    operation: ChangeOperation,
+    results: BulkItemResult[],
+    documents: Record<string, any>[],
+    tenantId?: string
+  ) {
+    for (const result of results) {
+      if (result.status === 'ok' && result.id) {
+        const document = documents[result.index];
+        const data = document ? { ...document, _id: document._id?.toString() } : null;
+        publish(operation, result.id, data, tenantId);
+      }
+    }
+  }
+
+  /**
+   * Create many items in a single bulk write
+   */
+  async function bulkCreate(req: Request) {
+    try {
+      const items = await readRequestBody(req);
+      const hookContext = await prepareRequest(req, 'bulkCreate', { body: items });
+      const { tenantId } = hookContext;
+      
+      if (!Array.isArray(items)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Request body must be an array of items' }),
+          { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
       
-      // Cache the result if not skipping cache
-      if (!skipCache) {
-        cache.set(cacheKey, result, cacheTime);
+      const results: BulkItemResult[] = [];
+      const documents: Record<string, any>[] = [];
+      const operations: any[] = [];
+      const operationIndexes: number[] = [];
+      
+      for (const [index, item] of items.entries()) {
+        try {
+          // Apply beforeWrite hook and validate each item on its own
+          assertWritable(item, hookContext);
+          const processedItem = hooks.beforeWrite
+            ? await hooks.beforeWrite(item, hookContext)
+            : item;
+          const validatedData: T = validateOnWrite ? schema.parse(processedItem) : processedItem;
+          
+          const document = withTenant(
+            concurrencyConfig
+              ? { ...validatedData, [concurrencyConfig.versionField]: 1 }
+              : validatedData,
+            tenantId
+          );
+          
+          operations.push({ insertOne: { document } });
+          operationIndexes.push(index);
+          documents[index] = document;
+          results[index] = { index, id: validatedData.id, status: 'ok' };
+        } catch (error) {
+          results[index] = failedBulkItem(index, item?.id, error);
+        }
       }
       
-      return new Response(JSON.stringify(result), {
-        headers: { 'Content-Type': 'application/json' },
-      });
+      await executeBulkWrite(operations, operationIndexes, results);
+      
+      // Invalidate cache once for the whole batch
+      await invalidateBulk(results, tenantId);
+      publishBulk('insert', results, documents, tenantId);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: results,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
     } catch (error) {
-      console.error(`Error fetching ${collectionName}:`, error);
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error bulk creating ${collectionName} items:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to fetch ${collectionName}` }),
+        JSON.stringify({ success: false, error: `Failed to bulk create ${collectionName} items` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -91,62 +1612,103 @@ export function createCollectionApi<T extends { id: string }>(
   }
 
   /**
-   * Get a single item by ID
+   * Update many existing items in a single bulk write
    */
-  async function getById(req: Request, context: { params: { id: string } }) {
-    const { id } = context.params;
-    const skipCache = req.method === 'POST';
-    const cacheKey = `collection:${collectionName}:${id}`;
-
-    // Check cache first if not skipping
-    if (!skipCache) {
-      const cachedData = cache.get<{ success: boolean; data: T; cached: boolean }>(cacheKey);
-      if (cachedData) {
-        return new Response(JSON.stringify(cachedData), {
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-    }
-
+  async function bulkUpdate(req: Request) {
     try {
-      // Fetch data from MongoDB
-      const collection = await getCollection(collectionName);
-      const item = await collection.findOne({ id });
+      const items = await readRequestBody(req);
+      const hookContext = await prepareRequest(req, 'bulkUpdate', { body: items });
+      const { tenantId } = hookContext;
       
-      if (!item) {
+      if (!Array.isArray(items)) {
         return new Response(
-          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          JSON.stringify({ success: false, error: 'Request body must be an array of items' }),
           { 
-            status: 404,
+            status: 400,
             headers: { 'Content-Type': 'application/json' },
           }
         );
       }
       
-      // Convert MongoDB document to plain object
-      const data = { ...item, _id: item._id?.toString() };
-      
-      // Apply afterRead hook if provided
-      const processedData = hooks.afterRead ? hooks.afterRead(data) : data;
+      const results: BulkItemResult[] = [];
+      const documents: Record<string, any>[] = [];
+      const operations: any[] = [];
+      const operationIndexes: number[] = [];
       
-      const result = {
-        success: true,
-        data: processedData,
-        cached: false,
-      };
+      // Load the stored documents first so hooks can compare against them
+      const ids = items.filter(item => typeof item?.id === 'string').map(item => item.id);
+      const existing = ids.length > 0 ? await findExisting(ids, tenantId) : new Map();
       
-      // Cache the result if not skipping cache
-      if (!skipCache) {
-        cache.set(cacheKey, result, cacheTime);
+      for (const [index, item] of items.entries()) {
+        try {
+          if (typeof item?.id !== 'string') {
+            throw new z.ZodError([{ code: z.ZodIssueCode.custom, path: ['id'], message: 'Required' }]);
+          }
+          
+          // Items that do not exist are reported instead of being silently skipped
+          if (!existing.has(item.id)) {
+            results[index] = {
+              index,
+              id: item.id,
+              status: 'not_found',
+              error: `Item with ID ${item.id} not found`,
+            };
+            continue;
+          }
+          
+          // Apply beforeWrite and beforeUpdate hooks and validate each item on its own
+          const itemContext = { ...hookContext, id: item.id, existing: existing.get(item.id) };
+          assertWritable(item, itemContext);
+          let processedItem = hooks.beforeWrite
+            ? await hooks.beforeWrite(item, itemContext)
+            : item;
+          if (hooks.beforeUpdate) {
+            processedItem = await hooks.beforeUpdate(processedItem, itemContext);
+          }
+          const validatedData: T = validateOnWrite
+            ? schema.parse({ ...processedItem, id: item.id })
+            : { ...processedItem, id: item.id };
+          const data = withTenant(validatedData, tenantId);
+          
+          const update: Record<string, any> = { $set: data };
+          if (concurrencyConfig) {
+            // Bulk updates skip the If-Match check but still bump the version
+            const { [concurrencyConfig.versionField]: ignored, ...fields } = data as Record<string, any>;
+            update.$set = fields;
+            update.$inc = { [concurrencyConfig.versionField]: 1 };
+          }
+          operations.push({
+            updateOne: { filter: scopeToTenant({ id: data.id }, tenantConfig, tenantId), update },
+          });
+          operationIndexes.push(index);
+          documents[index] = data;
+          results[index] = { index, id: data.id, status: 'ok' };
+        } catch (error) {
+          results[index] = failedBulkItem(index, item?.id, error);
+        }
       }
       
-      return new Response(JSON.stringify(result), {
-        headers: { 'Content-Type': 'application/json' },
-      });
+      await executeBulkWrite(operations, operationIndexes, results);
+      
+      // Invalidate cache once for the whole batch
+      await invalidateBulk(results, tenantId);
+      publishBulk('update', results, documents, tenantId);
+      
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: results,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
     } catch (error) {
-      console.error(`Error fetching ${collectionName} item:`, error);
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error bulk updating ${collectionName} items:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to fetch ${collectionName} item` }),
+        JSON.stringify({ success: false, error: `Failed to bulk update ${collectionName} items` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -156,53 +1718,101 @@ export function createCollectionApi<T extends { id: string }>(
   }
 
   /**
-   * Create a new item
+   * Delete many items in a single bulk write
    */
-  async function create(req: Request) {
+  async function bulkRemove(req: Request) {
     try {
-      // Handle both real and mock Request objects
-      let body;
-      try {
-        body = await req.json();
-      } catch (jsonError) {
-        // If req.json() fails, try to access the body directly (for tests)
-        body = req.body ? (typeof req.body === 'string' ? JSON.parse(req.body) : req.body) : {};
+      const ids = await readRequestBody(req);
+      const hookContext = await prepareRequest(req, 'bulkRemove', { body: ids });
+      const { tenantId } = hookContext;
+      
+      if (!Array.isArray(ids)) {
+        return new Response(
+          JSON.stringify({ success: false, error: 'Request body must be an array of IDs' }),
+          { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
       }
       
-      // Apply beforeWrite hook if provided
-      const processedBody = hooks.beforeWrite ? hooks.beforeWrite(body) : body;
+      const results: BulkItemResult[] = [];
+      const validIds = ids.filter((id): id is string => typeof id === 'string');
+      const existing = validIds.length > 0 ? await findExisting(validIds, tenantId) : new Map();
       
-      // Validate the request body against the schema
-      let validatedData: T;
-      if (validateOnWrite) {
-        validatedData = schema.parse(processedBody);
-      } else {
-        validatedData = processedBody as T;
+      const operations: any[] = [];
+      const operationIndexes: number[] = [];
+      
+      for (const [index, id] of ids.entries()) {
+        if (typeof id !== 'string') {
+          results[index] = {
+            index,
+            status: 'invalid',
+            error: 'Validation failed',
+            issues: [{ path: [], code: z.ZodIssueCode.invalid_type, message: 'Expected string' }],
+          };
+        } else if (!existing.has(id)) {
+          results[index] = { index, id, status: 'not_found', error: `Item with ID ${id} not found` };
+        } else if (
+          hooks.beforeDelete
+          && (await hooks.beforeDelete({ ...hookContext, id, existing: existing.get(id) })) === false
+        ) {
+          results[index] = {
+            index,
+            id,
+            status: 'error',
+            error: `Item with ID ${id} cannot be deleted`,
+          };
+        } else {
+          if (softDeleteConfig) {
+            // Move the item to the trash, bumping its version like remove does
+            const update: Record<string, any> = { $set: { [softDeleteConfig.field]: new Date() } };
+            if (concurrencyConfig) {
+              update.$inc = { [concurrencyConfig.versionField]: 1 };
+            }
+            operations.push({ updateOne: { filter: liveFilter({ id }, tenantId), update } });
+          } else {
+            operations.push({ deleteOne: { filter: scopeToTenant({ id }, tenantConfig, tenantId) } });
+          }
+          operationIndexes.push(index);
+          results[index] = { index, id, status: 'ok' };
+        }
       }
       
-      // Insert data into MongoDB
-      const collection = await getCollection(collectionName);
-      const result = await collection.insertOne(validatedData);
+      await executeBulkWrite(operations, operationIndexes, results);
       
-      // Apply afterWrite hook if provided
-      const processedResult = hooks.afterWrite 
-        ? hooks.afterWrite({ ...validatedData, _id: result.insertedId.toString() })
-        : { ...validatedData, _id: result.insertedId.toString() };
+      // Invalidate cache once for the whole batch
+      await invalidateBulk(results, tenantId);
+      publishBulk('delete', results, [], tenantId);
       
-      // Invalidate cache
-      cache.delete(`collection:${collectionName}:all`);
+      // Apply afterDelete hook to every item that was actually deleted
+      if (hooks.afterDelete) {
+        for (const result of results) {
+          if (result.status === 'ok' && result.id) {
+            await hooks.afterDelete({
+              ...hookContext,
+              id: result.id,
+              existing: existing.get(result.id),
+            });
+          }
+        }
+      }
       
       return new Response(
         JSON.stringify({
           success: true,
-          data: processedResult,
+          data: results,
         }),
         { headers: { 'Content-Type': 'application/json' } }
       );
     } catch (error) {
-      console.error(`Error creating ${collectionName} item:`, error);
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error bulk deleting ${collectionName} items:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to create ${collectionName} item` }),
+        JSON.stringify({ success: false, error: `Failed to bulk delete ${collectionName} items` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -212,66 +1822,180 @@ export function createCollectionApi<T extends { id: string }>(
   }
 
   /**
-   * Update an existing item
+   * Refresh the cache for the collection
    */
-  async function update(req: Request, context: { params: { id: string } }) {
-    const { id } = context.params;
+  async function refreshCache(req: Request) {
+    return readList(req, 'refreshCache');
+  }
+
+  /**
+   * Follow a MongoDB change stream of the collection
+   * 
+   * @returns A function that closes the change stream, or null when the
+   * server does not support change streams and the write path should be
+   * used instead
+   * @throws The server's error if change streams are required but
+   * unsupported, or if the stream could not be opened for another reason
+   */
+  async function watchChangeStream(
+    resumeToken: string | null,
+    deliver: (change: FeedChange) => void,
+    writer: EventStreamWriter
+  ): Promise<(() => void) | null> {
+    const collection = await getCollection(collectionName);
+    const fields = { softDeleteField: softDeleteConfig?.field, tenantField: tenantConfig?.field };
+    const watchOptions: ChangeStreamOptions = {
+      fullDocument: 'updateLookup',
+      // Identifies deleted items, but is rejected before MongoDB 6
+      ...(changeFeedConfig.preImages ? { fullDocumentBeforeChange: 'whenAvailable' } : {}),
+    };
     
-    try {
-      // Handle both real and mock Request objects
-      let body;
+    // Tokens the change stream did not issue cannot be resumed from
+    let resumeAfter = resumeToken ? decodeChangeStreamToken(resumeToken) : null;
+    if (resumeToken && !resumeAfter) {
+      writer.reset();
+    }
+    
+    let changeStream;
+    let first;
+    for (;;) {
       try {
-        body = await req.json();
-      } catch (jsonError) {
-        // If req.json() fails, try to access the body directly (for tests)
-        body = req.body ? (typeof req.body === 'string' ? JSON.parse(req.body) : req.body) : {};
+        changeStream = collection.watch([], {
+          ...watchOptions,
+          ...(resumeAfter ? { resumeAfter } : {}),
+        });
+        // Opening the stream makes servers without a replica set reject it
+        first = await changeStream.tryNext();
+        break;
+      } catch (error) {
+        await changeStream?.close().catch(() => undefined);
+        if (resumeAfter) {
+          // The token may have fallen off the oplog, so start from now instead
+          resumeAfter = null;
+          writer.reset();
+          continue;
+        }
+        // Only a server without a replica set is remembered; other failures
+        // close this stream and the client reconnects
+        if (changeFeedConfig.source === 'changeStream' || !isChangeStreamUnsupported(error)) {
+          throw error;
+        }
+        changeStreamsUnavailable = true;
+        return null;
       }
-      
-      // Apply beforeWrite hook if provided
-      const processedBody = hooks.beforeWrite ? hooks.beforeWrite(body) : body;
-      
-      // Validate the request body against the schema
-      let validatedData: T;
-      if (validateOnWrite) {
-        validatedData = schema.parse({ ...processedBody, id });
-      } else {
-        validatedData = { ...processedBody, id } as T;
+    }
+    
+    const handle = (event: Record<string, any>) => {
+      const change = fromChangeStreamEvent(event, fields);
+      if (change === 'unknown') {
+        writer.reset();
+      } else if (change !== 'skip') {
+        deliver(change);
       }
-      
-      // Update data in MongoDB
-      const collection = await getCollection(collectionName);
-      const result = await collection.updateOne({ id }, { $set: validatedData });
-      
-      if (result.matchedCount === 0) {
-        return new Response(
-          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
-          { 
-            status: 404,
-            headers: { 'Content-Type': 'application/json' },
+    };
+    
+    let stopped = false;
+    const stream = changeStream;
+    (async () => {
+      if (first) {
+        handle(first);
+      }
+      while (!stopped) {
+        handle(await stream.next());
+      }
+    })().catch(error => {
+      if (!stopped) {
+        console.error(`Error in ${collectionName} change stream:`, error);
+        writer.close();
+      }
+    });
+    
+    return () => {
+      stopped = true;
+      stream.close().catch(() => undefined);
+    };
+  }
+
+  /**
+   * Start sending the changes the caller may see to an event stream
+   * 
+   * @returns A function that stops sending changes
+   */
+  async function watchChanges(
+    hookContext: HookContext,
+    resumeToken: string | null,
+    writer: EventStreamWriter
+  ): Promise<() => void> {
+    // Deliver changes in order, even when afterRead is async
+    let queue = Promise.resolve();
+    const deliver = (change: FeedChange) => {
+      if (tenantConfig && change.tenantId !== hookContext.tenantId) {
+        return;
+      }
+      queue = queue
+        .then(async () => {
+          let data = change.data && { ...change.data, _id: change.data._id?.toString() };
+          if (data && hooks.afterRead) {
+            data = await hooks.afterRead(data, { ...hookContext, id: change.id });
           }
-        );
+          writer.send({ ...change, data: data && redact(data, hookContext) });
+        })
+        .catch(error => {
+          console.error(`Error sending ${collectionName} change:`, error);
+          writer.close();
+        });
+    };
+    
+    if (changeFeedConfig.source !== 'writes' && !changeStreamsUnavailable) {
+      const stop = await watchChangeStream(resumeToken, deliver, writer);
+      if (stop) {
+        return stop;
       }
+    }
+    
+    // Without change streams, only writes made through this process are seen
+    const { stop, resumed } = listenForChanges(collectionName, resumeToken, deliver);
+    if (!resumed) {
+      writer.reset();
+    }
+    return stop;
+  }
+
+  /**
+   * Stream inserts, updates and deletes as Server-Sent Events
+   * 
+   * Clients resume after the last event they received through the
+   * `Last-Event-ID` header or the `resumeAfter` query param. When that is
+   * no longer possible a `reset` event tells them to reload the collection.
+   */
+  async function subscribe(req: Request) {
+    try {
+      const hookContext = await prepareRequest(req, 'subscribe');
+      const { searchParams } = new URL(req.url, 'http://localhost');
+      const resumeToken = req.headers.get('Last-Event-ID') || searchParams.get('resumeAfter');
       
-      // Apply afterWrite hook if provided
-      const processedResult = hooks.afterWrite 
-        ? hooks.afterWrite(validatedData)
-        : validatedData;
-      
-      // Invalidate cache
-      cache.delete(`collection:${collectionName}:all`);
-      cache.delete(`collection:${collectionName}:${id}`);
-      
-      return new Response(
-        JSON.stringify({
-          success: true,
-          data: processedResult,
-        }),
-        { headers: { 'Content-Type': 'application/json' } }
+      const stream = createEventStream(
+        req.signal,
+        changeFeedConfig.heartbeatInterval,
+        writer => watchChanges(hookContext, resumeToken, writer)
       );
+      
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          // Stop nginx from buffering the stream
+          'X-Accel-Buffering': 'no',
+        },
+      });
     } catch (error) {
-      console.error(`Error updating ${collectionName} item:`, error);
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      console.error(`Error subscribing to ${collectionName}:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to update ${collectionName} item` }),
+        JSON.stringify({ success: false, error: `Failed to subscribe to ${collectionName}` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -281,41 +2005,142 @@ export function createCollectionApi<T extends { id: string }>(
   }
 
   /**
-   * Delete an item
+   * Stream the collection as NDJSON or CSV
+   * 
+   * Documents are read from a cursor in batches instead of being loaded at
+   * once, so exports of any size use little memory. URL filters, `sort` and
+   * `fields` work as they do for getAll. The format comes from the `format`
+   * query param or the `Accept` header.
    */
-  async function remove(req: Request, context: { params: { id: string } }) {
-    const { id } = context.params;
-    
+  async function exportAll(req: Request) {
+    const { searchParams } = new URL(req.url, 'http://localhost');
+    const queryParams = new URLSearchParams(searchParams);
+    queryParams.delete('format');
+
+    let hookContext: HookContext;
+    let format: TransferFormat;
+    let filter;
+    let sort;
+    let projection;
     try {
-      // Delete data from MongoDB
-      const collection = await getCollection(collectionName);
-      const result = await collection.deleteOne({ id });
-      
-      if (result.deletedCount === 0) {
+      format = negotiateExportFormat(searchParams.get('format'), req.headers.get('Accept'));
+      hookContext = await prepareRequest(req, 'exportAll');
+      filter = parseFilterQuery(queryParams, schema, filters);
+      sort = parseSortQuery(queryParams.get('sort'), schema);
+      projection = parseFieldsQuery(queryParams.get('fields'), schema);
+      assertQueryable([...Object.keys(filter), ...Object.keys(sort || {})], hookContext);
+    } catch (error) {
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      if (error instanceof InvalidQueryError) {
         return new Response(
-          JSON.stringify({ success: false, error: `Item with ID ${id} not found` }),
+          JSON.stringify({ success: false, error: error.message }),
           { 
-            status: 404,
+            status: 400,
             headers: { 'Content-Type': 'application/json' },
           }
         );
       }
-      
-      // Invalidate cache
-      cache.delete(`collection:${collectionName}:all`);
-      cache.delete(`collection:${collectionName}:${id}`);
-      
+      console.error(`Error exporting ${collectionName}:`, error);
       return new Response(
-        JSON.stringify({
-          success: true,
-          data: { id },
-        }),
-        { headers: { 'Content-Type': 'application/json' } }
+        JSON.stringify({ success: false, error: `Failed to export ${collectionName}` }),
+        { 
+          status: 500,
+          headers: { 'Content-Type': 'application/json' },
+        }
       );
+    }
+
+    try {
+      let query: any = filter;
+      if (hooks.beforeRead) {
+        query = await hooks.beforeRead(query, hookContext);
+      }
+      query = liveFilter(query, hookContext.tenantId);
+      
+      const collection = await getCollection(collectionName);
+      let cursor = collection.find(query);
+      if (projection) {
+        cursor = cursor.project(projection);
+      }
+      if (sort) {
+        cursor = cursor.sort(sort);
+      }
+      const documents = cursor;
+      
+      // Read the next documents from the cursor, as the caller may see them
+      const readBatch = async (): Promise<Record<string, any>[]> => {
+        const batch: Record<string, any>[] = [];
+        while (batch.length < EXPORT_BATCH_SIZE) {
+          const doc = await documents.next();
+          if (!doc) {
+            break;
+          }
+          // MongoDB ids differ between databases, so they are not exported
+          const { _id, ...item } = doc;
+          batch.push(item);
+        }
+        if (batch.length === 0) {
+          return batch;
+        }
+        return redact(
+          hooks.afterRead ? await hooks.afterRead(batch, hookContext) : batch,
+          hookContext
+        );
+      };
+      
+      // Read the first batch before responding, so a failing query still gets a 500
+      let batch = await readBatch();
+      
+      let columns: string[] = [];
+      if (format === 'csv') {
+        columns = getCsvColumns(schema, batch).filter(column => !projection || column in projection);
+        if (fieldConfig) {
+          const hidden = getUnreadableFields(columns, fieldConfig, hookContext.roles || []);
+          columns = columns.filter(column => !hidden.includes(column));
+        }
+      }
+      
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (format === 'csv') {
+            controller.enqueue(encoder.encode(formatCsvRow(columns)));
+          }
+        },
+        async pull(controller) {
+          try {
+            if (batch.length === 0) {
+              controller.close();
+              await documents.close();
+              return;
+            }
+            controller.enqueue(encoder.encode(formatRecords(batch, format, columns)));
+            batch = await readBatch();
+          } catch (error) {
+            // The status has been sent, so all that is left is to cut the download short
+            console.error(`Error exporting ${collectionName}:`, error);
+            controller.error(error);
+            documents.close().catch(() => undefined);
+          }
+        },
+        async cancel() {
+          await documents.close();
+        },
+      });
+      
+      return new Response(body, {
+        headers: {
+          'Content-Type': TRANSFER_CONTENT_TYPES[format],
+          'Content-Disposition': `attachment; filename="${collectionName}.${format}"`,
+        },
+      });
     } catch (error) {
-      console.error(`Error deleting ${collectionName} item:`, error);
+      console.error(`Error exporting ${collectionName}:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to delete ${collectionName} item` }),
+        JSON.stringify({ success: false, error: `Failed to export ${collectionName}` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -325,43 +2150,176 @@ export function createCollectionApi<T extends { id: string }>(
   }
 
   /**
-   * Refresh the cache for the collection
+   * Write a batch of imported rows, updating stored items with the same ID
+   * 
+   * Rows set their fields on stored items rather than replacing them, so
+   * fields the caller may not write are kept. Items in the trash are
+   * updated too, which restores them. In a dry run nothing is written, but
+   * rows are still counted as inserts or updates.
+   * 
+   * @param rows Validated documents with the index of their record
+   * @param summary The import summary, updated in place
    */
-  async function refreshCache(req: Request) {
+  async function writeImportBatch(
+    rows: { index: number; document: Record<string, any> }[],
+    summary: ImportSummary,
+    tenantId?: string
+  ) {
+    if (rows.length === 0) {
+      return;
+    }
+    
+    const collection = await getCollection(collectionName);
+    const existing = await collection
+      .find(scopeToTenant({ id: { $in: rows.map(row => row.document.id) } }, tenantConfig, tenantId))
+      .project({
+        id: 1,
+        ...(concurrencyConfig ? { [concurrencyConfig.versionField]: 1 } : {}),
+        ...(softDeleteConfig ? { [softDeleteConfig.field]: 1 } : {}),
+      })
+      .toArray();
+    const stored = new Map(existing.map((item: any) => [item.id, item]));
+    
+    const results: BulkItemResult[] = rows.map(({ index, document }) => ({
+      index,
+      id: document.id,
+      status: 'ok',
+    }));
+    const written = rows.map(({ document }) => {
+      const previous = stored.get(document.id);
+      return concurrencyConfig
+        ? {
+          ...document,
+          [concurrencyConfig.versionField]: (previous ? getVersion(previous, concurrencyConfig) : 0) + 1,
+        }
+        : document;
+    });
+    
+    if (!summary.dryRun) {
+      await executeBulkWrite(
+        written.map(document => ({
+          updateOne: {
+            filter: scopeToTenant({ id: document.id }, tenantConfig, tenantId),
+            update: {
+              $set: document,
+              ...(softDeleteConfig && !Object.prototype.hasOwnProperty.call(document, softDeleteConfig.field)
+                ? { $unset: { [softDeleteConfig.field]: '' } }
+                : {}),
+            },
+            upsert: true,
+          },
+        })),
+        rows.map((_, position) => position),
+        results
+      );
+    }
+    
+    for (const [position, result] of results.entries()) {
+      if (result.status !== 'ok') {
+        recordImportFailure(summary, result);
+        continue;
+      }
+      // Restoring an item from the trash looks like an insert to subscribers
+      const previous = stored.get(result.id as string);
+      const inserted = !previous || (softDeleteConfig && previous[softDeleteConfig.field] != null);
+      if (previous) {
+        summary.updated += 1;
+      } else {
+        summary.inserted += 1;
+      }
+      if (!summary.dryRun) {
+        publish(inserted ? 'insert' : 'update', result.id as string, written[position], tenantId);
+      }
+    }
+    
+    if (!summary.dryRun) {
+      await invalidateBulk(results, tenantId);
+    }
+  }
+
+  /**
+   * Insert or update items from an NDJSON or CSV upload
+   * 
+   * The upload is read as a stream and every row is validated on its own,
+   * so one bad row does not stop the import. Rows are written in batches,
+   * updating any item with the same ID. With `?dryRun=true` rows are only
+   * validated. The format comes from the `format` query param or the
+   * `Content-Type` header.
+   */
+  async function importMany(req: Request) {
     try {
-      const cacheKey = `collection:${collectionName}:all`;
+      const { searchParams } = new URL(req.url, 'http://localhost');
+      const format = detectImportFormat(searchParams.get('format'), req.headers.get('Content-Type'));
+      const hookContext = await prepareRequest(req, 'importMany');
+      const { tenantId } = hookContext;
       
-      // Delete the cache entry
-      cache.delete(cacheKey);
-      
-      // Fetch fresh data from MongoDB
-      const collection = await getCollection(collectionName);
-      const items = await collection.find({}).toArray();
-      
-      // Convert MongoDB documents to plain objects
-      const data = items.map((item: any) => {
-        return { ...item, _id: item._id?.toString() };
-      });
-      
-      // Apply afterRead hook if provided
-      const processedData = hooks.afterRead ? hooks.afterRead(data) : data;
-      
-      const result = {
-        success: true,
-        data: processedData,
-        cached: false,
+      const summary: ImportSummary = {
+        dryRun: searchParams.get('dryRun') === 'true',
+        total: 0,
+        inserted: 0,
+        updated: 0,
+        failed: 0,
+        errors: [],
       };
+      let rows: { index: number; document: Record<string, any> }[] = [];
       
-      // Cache the fresh result
-      cache.set(cacheKey, result, cacheTime);
+      for await (const record of readImportRecords(readTextChunks(req), format, schema)) {
+        const index = summary.total++;
+        if (record.error !== undefined) {
+          recordImportFailure(summary, { index, status: 'invalid', error: record.error });
+          continue;
+        }
+        
+        try {
+          // Apply beforeWrite hook and validate each row on its own
+          assertWritable(record.value, hookContext);
+          const processedItem = hooks.beforeWrite
+            ? await hooks.beforeWrite(record.value, hookContext)
+            : record.value;
+          const validatedData: T = validateOnWrite ? schema.parse(processedItem) : processedItem;
+          
+          // Rows update items by ID, so even unvalidated rows need one
+          if (typeof validatedData?.id !== 'string') {
+            throw new z.ZodError([
+              { code: z.ZodIssueCode.custom, path: ['id'], message: 'Row must have an id' },
+            ]);
+          }
+          rows.push({ index, document: withTenant(validatedData, tenantId) });
+        } catch (error) {
+          recordImportFailure(summary, failedBulkItem(index, record.value.id, error));
+        }
+        
+        if (rows.length >= IMPORT_BATCH_SIZE) {
+          await writeImportBatch(rows, summary, tenantId);
+          rows = [];
+        }
+      }
+      await writeImportBatch(rows, summary, tenantId);
       
-      return new Response(JSON.stringify(result), {
-        headers: { 'Content-Type': 'application/json' },
-      });
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: summary,
+        }),
+        { headers: { 'Content-Type': 'application/json' } }
+      );
     } catch (error) {
-      console.error(`Error refreshing ${collectionName} cache:`, error);
+      const clientError = clientErrorResponse(error);
+      if (clientError) {
+        return clientError;
+      }
+      if (error instanceof InvalidQueryError) {
+        return new Response(
+          JSON.stringify({ success: false, error: error.message }),
+          { 
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      console.error(`Error importing ${collectionName} items:`, error);
       return new Response(
-        JSON.stringify({ success: false, error: `Failed to refresh ${collectionName} cache` }),
+        JSON.stringify({ success: false, error: `Failed to import ${collectionName} items` }),
         { 
           status: 500,
           headers: { 'Content-Type': 'application/json' },
@@ -375,7 +2333,17 @@ export function createCollectionApi<T extends { id: string }>(
     getById,
     create,
     update,
+    patch,
     remove,
+    bulkCreate,
+    bulkUpdate,
+    bulkRemove,
+    listTrash,
+    restore,
+    purge,
     refreshCache,
+    subscribe,
+    exportAll,
+    importMany,
   };
 }
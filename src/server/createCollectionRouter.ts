@@ -0,0 +1,179 @@
+/**
+ * Catch-all router serving several collection APIs from one route file
+ */
+
+import {
+  CollectionApi,
+  CollectionRouteContext,
+  CollectionRouteDefinition,
+  CollectionRouter,
+} from '../shared/types';
+import { createCollectionApi } from './createCollectionApi';
+
+export type HttpMethod = keyof CollectionRouter;
+
+type ItemHandler = (req: Request, context: { params: { id: string } }) => Promise<Response>;
+
+/**
+ * The handlers available at one path, and the item ID it addresses
+ */
+export interface MatchedRoute {
+  handlers: Partial<Record<HttpMethod, ItemHandler>>;
+  id?: string;
+}
+
+/**
+ * Check whether a request carries a body
+ */
+function hasRequestBody(req: Request): boolean {
+  const contentLength = req.headers.get('content-length');
+  if (contentLength !== null) {
+    return Number(contentLength) > 0;
+  }
+  return req.headers.has('transfer-encoding') || (req.body !== null && req.body !== undefined);
+}
+
+/**
+ * Match the path segments after the collection name to API handlers
+ *
+ * `bulk`, `export`, `import`, `refresh`, `subscribe` and `trash` are
+ * reserved, so they cannot be used as item IDs. A POST to the collection
+ * without a body is a cache-bypassing `getAll`, which is how
+ * `useCollection().refresh()` reloads a list; with a body it is `create`.
+ *
+ * @param api The collection's API handlers
+ * @param segments Path segments after the collection name
+ * @returns The matched route, or null if the path is unknown
+ */
+export function matchRoute(api: CollectionApi<any>, segments: string[]): MatchedRoute | null {
+  const [first, second] = segments;
+
+  if (segments.length === 0) {
+    return {
+      handlers: {
+        GET: api.getAll,
+        POST: req => (hasRequestBody(req) ? api.create(req) : api.getAll(req)),
+      },
+    };
+  }
+
+  if (segments.length === 1) {
+    switch (first) {
+      case 'bulk':
+        return {
+          handlers: { POST: api.bulkCreate, PUT: api.bulkUpdate, DELETE: api.bulkRemove },
+        };
+      case 'export':
+        return { handlers: { GET: api.exportAll } };
+      case 'import':
+        return { handlers: { POST: api.importMany } };
+      case 'refresh':
+        return { handlers: { POST: api.refreshCache } };
+      case 'subscribe':
+        return { handlers: { GET: api.subscribe } };
+      case 'trash':
+        return { handlers: { GET: api.listTrash } };
+      default:
+        return {
+          id: first,
+          handlers: { GET: api.getById, PUT: api.update, PATCH: api.patch, DELETE: api.remove },
+        };
+    }
+  }
+
+  if (segments.length === 2 && first === 'trash') {
+    return { id: second, handlers: { POST: api.restore, DELETE: api.purge } };
+  }
+
+  return null;
+}
+
+/**
+ * Response for a path that matches no collection route
+ *
+ * @param path The request's path segments
+ * @returns A 404 response
+ */
+export function routeNotFound(path: string[]): Response {
+  return new Response(
+    JSON.stringify({ success: false, error: `No route for /${path.join('/')}` }),
+    {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Call the handler a matched route has for the request method
+ *
+ * @param route The matched route
+ * @param method The request method
+ * @param req The incoming request
+ * @returns The handler's response, or a 405 listing the allowed methods
+ */
+export function dispatchRoute(
+  route: MatchedRoute,
+  method: string,
+  req: Request
+): Promise<Response> {
+  const handler = route.handlers[method as HttpMethod];
+  if (!handler) {
+    return Promise.resolve(new Response(
+      JSON.stringify({ success: false, error: `Method ${method} not allowed` }),
+      {
+        status: 405,
+        headers: {
+          'Content-Type': 'application/json',
+          Allow: Object.keys(route.handlers).join(', '),
+        },
+      }
+    ));
+  }
+  return handler(req, { params: { id: route.id as string } });
+}
+
+/**
+ * Create the handlers for a Next.js `[...path]` catch-all route
+ *
+ * The first path segment selects the collection and the rest select the
+ * operation, e.g. `GET /api/posts/post-1` calls `getById` of `posts`.
+ *
+ * @param config Collection definitions keyed by their route segment
+ * @returns GET, POST, PUT, PATCH and DELETE route handlers
+ */
+export function createCollectionRouter(
+  config: Record<string, CollectionRouteDefinition>
+): CollectionRouter {
+  // A Map so that segments like `constructor` never resolve to a collection
+  const apis = new Map<string, CollectionApi<any>>();
+  for (const [name, definition] of Object.entries(config)) {
+    const { schema, collection = name, ...options } = definition;
+    apis.set(name, createCollectionApi(collection, schema, options));
+  }
+
+  function handle(method: HttpMethod) {
+    return async (req: Request, context: CollectionRouteContext): Promise<Response> => {
+      // Next.js 15 passes params as a Promise
+      const { path = [] } = (await context?.params) || {};
+      const [name, ...segments] = path;
+
+      const api = name !== undefined ? apis.get(name) : undefined;
+      const route = api ? matchRoute(api, segments) : null;
+
+      if (!route) {
+        return routeNotFound(path);
+      }
+
+      return dispatchRoute(route, method, req);
+    };
+  }
+
+  return {
+    GET: handle('GET'),
+    POST: handle('POST'),
+    PUT: handle('PUT'),
+    PATCH: handle('PATCH'),
+    DELETE: handle('DELETE'),
+  };
+}
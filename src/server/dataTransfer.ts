@@ -0,0 +1,483 @@
+/**
+ * NDJSON and CSV encoding for the `exportAll` and `importMany` endpoints
+ */
+
+import { z } from 'zod';
+import { InvalidQueryError, getSchemaShape, unwrapSchema } from './query';
+
+/**
+ * File format of an export or import
+ */
+export type TransferFormat = 'ndjson' | 'csv';
+
+/**
+ * A record read from an import file
+ */
+export type ImportRecord =
+  | { value: Record<string, unknown>; error?: undefined }
+  | { value?: undefined; error: string };  // The record could not be parsed
+
+export const TRANSFER_CONTENT_TYPES: Record<TransferFormat, string> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv; charset=utf-8',
+};
+
+// Documents read from the cursor and passed to afterRead at a time
+export const EXPORT_BATCH_SIZE = 500;
+
+// Imported rows written in a single bulk write
+export const IMPORT_BATCH_SIZE = 500;
+
+// Failed rows listed in an import summary, so a bad file cannot bloat the response
+export const MAX_REPORTED_ERRORS = 1000;
+
+// Spreadsheet programs run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const FORMAT_ALIASES: Record<string, TransferFormat> = {
+  ndjson: 'ndjson',
+  jsonl: 'ndjson',
+  csv: 'csv',
+};
+
+const MEDIA_TYPES: Record<string, TransferFormat> = {
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'text/csv': 'csv',
+};
+
+/**
+ * Parse the `format` query param
+ *
+ * @returns The format, or null if the param is absent
+ * @throws InvalidQueryError if the format is not supported
+ */
+function parseFormatParam(value: string | null): TransferFormat | null {
+  if (value === null) {
+    return null;
+  }
+  const format = FORMAT_ALIASES[value.toLowerCase()];
+  if (!format) {
+    throw new InvalidQueryError(`Unsupported format: ${value} (expected ndjson or csv)`);
+  }
+  return format;
+}
+
+/**
+ * Get the format named by a media type
+ *
+ * @param mediaType A media type, possibly with parameters
+ * @returns The format, or undefined for other media types
+ */
+function formatOfMediaType(mediaType: string): TransferFormat | undefined {
+  return MEDIA_TYPES[mediaType.split(';')[0].trim().toLowerCase()];
+}
+
+/**
+ * Choose the format of an export
+ *
+ * The `format` query param wins over the `Accept` header, whose first
+ * supported media type is used. Exports are NDJSON by default.
+ *
+ * @param formatParam The `format` query param, if present
+ * @param accept The request's `Accept` header, if present
+ * @returns The export format
+ * @throws InvalidQueryError if the `format` param is not supported
+ */
+export function negotiateExportFormat(
+  formatParam: string | null,
+  accept: string | null
+): TransferFormat {
+  const format = parseFormatParam(formatParam);
+  if (format) {
+    return format;
+  }
+  for (const mediaType of (accept || '').split(',')) {
+    const accepted = formatOfMediaType(mediaType);
+    if (accepted) {
+      return accepted;
+    }
+  }
+  return 'ndjson';
+}
+
+/**
+ * Choose the format of an upload
+ *
+ * The `format` query param wins over the `Content-Type` header. Uploads
+ * are NDJSON by default.
+ *
+ * @param formatParam The `format` query param, if present
+ * @param contentType The request's `Content-Type` header, if present
+ * @returns The import format
+ * @throws InvalidQueryError if the `format` param is not supported
+ */
+export function detectImportFormat(
+  formatParam: string | null,
+  contentType: string | null
+): TransferFormat {
+  return parseFormatParam(formatParam)
+    || (contentType ? formatOfMediaType(contentType) : undefined)
+    || 'ndjson';
+}
+
+/**
+ * Get the CSV columns of an export
+ *
+ * Columns follow the schema's field order. Schemas that are not objects
+ * fall back to the fields of the first exported documents.
+ *
+ * @param schema The collection's Zod schema
+ * @param sample Documents to take columns from when the schema has no shape
+ * @returns The column names
+ */
+export function getCsvColumns(schema: z.ZodTypeAny, sample: Record<string, unknown>[]): string[] {
+  const fields = Object.keys(getSchemaShape(schema));
+  if (fields.length > 0) {
+    return fields;
+  }
+  const columns = new Set<string>();
+  for (const doc of sample) {
+    Object.keys(doc).forEach(key => columns.add(key));
+  }
+  return [...columns];
+}
+
+/**
+ * Format a value as a CSV cell
+ *
+ * Dates are written as ISO strings and objects and arrays as JSON. Strings
+ * that a spreadsheet would run as a formula are prefixed with `'`, which
+ * importing removes again.
+ */
+function formatCsvValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else if (typeof value === 'string' && FORMULA_PREFIX.test(value)) {
+    text = `'${value}`;
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV row
+ *
+ * @param values The row's values, in column order
+ * @returns The row, terminated by CRLF
+ */
+export function formatCsvRow(values: unknown[]): string {
+  return `${values.map(formatCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * Format documents as NDJSON or CSV rows
+ *
+ * @param docs The documents to write
+ * @param format The export format
+ * @param columns The CSV columns, ignored for NDJSON
+ * @returns The encoded rows
+ */
+export function formatRecords(
+  docs: Record<string, unknown>[],
+  format: TransferFormat,
+  columns: string[]
+): string {
+  if (format === 'ndjson') {
+    return docs.map(doc => `${JSON.stringify(doc)}\n`).join('');
+  }
+  return docs.map(doc => formatCsvRow(columns.map(column => doc[column]))).join('');
+}
+
+/**
+ * Read a request body as text, chunk by chunk
+ *
+ * @param req The incoming request
+ * @returns The decoded chunks
+ */
+export async function* readTextChunks(req: Request): AsyncGenerator<string> {
+  const body: unknown = req.body;
+  // Mock requests may carry the body as a string (for tests)
+  if (typeof body === 'string') {
+    yield body;
+    return;
+  }
+  if (!body) {
+    return;
+  }
+
+  const reader = (body as ReadableStream<Uint8Array>).getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      yield decoder.decode(value, { stream: true });
+    }
+    yield decoder.decode();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Split text chunks into non-empty lines
+ */
+async function* readLines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const chunk of chunks) {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() as string;
+    for (const line of lines) {
+      if (line.trim() !== '') {
+        yield line;
+      }
+    }
+  }
+  if (buffer.trim() !== '') {
+    yield buffer;
+  }
+}
+
+/**
+ * Split text chunks into CSV records
+ *
+ * Follows RFC 4180: fields may be quoted, quoted fields may contain commas,
+ * line breaks and doubled quotes, and records end with LF or CRLF. Blank
+ * lines are skipped.
+ */
+async function* readCsvRecords(chunks: AsyncIterable<string>): AsyncGenerator<string[]> {
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;         // Inside a quoted field
+  let quoteSeen = false;      // Just read a quote inside a quoted field
+  let started = false;        // The current field has content or was quoted
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    started = false;
+  };
+  const endRecord = () => {
+    endField();
+    const complete = record;
+    record = [];
+    return complete.length === 1 && complete[0] === '' ? null : complete;
+  };
+
+  for await (const chunk of chunks) {
+    const completed: string[][] = [];
+    for (const char of chunk) {
+      if (quoteSeen) {
+        quoteSeen = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+      if (quoted) {
+        if (char === '"') {
+          quoteSeen = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && !started) {
+        quoted = true;
+        started = true;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n') {
+        const complete = endRecord();
+        if (complete) {
+          completed.push(complete);
+        }
+      } else if (char !== '\r') {
+        field += char;
+        started = true;
+      }
+    }
+    yield* completed;
+  }
+
+  if (started || record.length > 0) {
+    const complete = endRecord();
+    if (complete) {
+      yield complete;
+    }
+  }
+}
+
+/**
+ * Convert a CSV cell to the type the schema declares for its column
+ *
+ * Empty cells are left out, and the `'` exports put before formula-like
+ * text is removed. Values that cannot be converted are passed on as
+ * strings, so schema validation reports them.
+ *
+ * @param fieldSchema The column's Zod schema, if the schema declares it
+ * @param raw The cell's text
+ * @returns The converted value
+ */
+export function coerceCsvValue(fieldSchema: z.ZodTypeAny | undefined, raw: string): unknown {
+  if (raw === '') {
+    return undefined;
+  }
+  // Undo the prefix exports add to cells that look like formulas
+  if (raw.startsWith("'") && FORMULA_PREFIX.test(raw.slice(1))) {
+    return raw.slice(1);
+  }
+  if (!fieldSchema) {
+    return raw;
+  }
+
+  const inner = unwrapSchema(fieldSchema);
+  if (inner instanceof z.ZodNumber) {
+    const value = Number(raw);
+    return raw.trim() === '' || Number.isNaN(value) ? raw : value;
+  }
+  if (inner instanceof z.ZodBoolean) {
+    return raw === 'true' ? true : raw === 'false' ? false : raw;
+  }
+  if (inner instanceof z.ZodDate) {
+    const value = new Date(raw);
+    return Number.isNaN(value.getTime()) ? raw : value;
+  }
+  if (
+    inner instanceof z.ZodArray
+    || inner instanceof z.ZodObject
+    || inner instanceof z.ZodRecord
+  ) {
+    try {
+      return coerceJsonValue(inner, JSON.parse(raw));
+    } catch {
+      return raw;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Convert a parsed JSON value to the types the schema declares
+ *
+ * JSON has no dates, so exported dates come back as strings. These are
+ * converted for date fields, including inside nested objects and arrays.
+ * Values that cannot be converted are passed on unchanged, so schema
+ * validation reports them.
+ *
+ * @param fieldSchema The value's Zod schema, if the schema declares it
+ * @param value The parsed value
+ * @returns The converted value
+ */
+export function coerceJsonValue(fieldSchema: z.ZodTypeAny | undefined, value: unknown): unknown {
+  if (!fieldSchema || value === null || value === undefined) {
+    return value;
+  }
+
+  const inner = unwrapSchema(fieldSchema);
+  if (inner instanceof z.ZodDate) {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  if (inner instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map(item => coerceJsonValue(inner.element, item));
+  }
+  if (inner instanceof z.ZodObject && typeof value === 'object' && !Array.isArray(value)) {
+    const shape: z.ZodRawShape = inner.shape;
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        Object.prototype.hasOwnProperty.call(shape, key) ? coerceJsonValue(shape[key], item) : item,
+      ])
+    );
+  }
+  if (inner instanceof z.ZodRecord && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        coerceJsonValue(inner.valueSchema, item),
+      ])
+    );
+  }
+  return value;
+}
+
+/**
+ * Read the records of an import file
+ *
+ * NDJSON files hold one JSON object per line, with dates converted from
+ * strings where the schema declares them. CSV files start with a header
+ * row naming the fields, and their cells are converted to the types the
+ * schema declares. Records that cannot be parsed are reported
+ * with an error instead of a value.
+ *
+ * @param chunks The file's text, chunk by chunk
+ * @param format The file format
+ * @param schema The collection's Zod schema
+ * @returns The file's records, in order
+ */
+export async function* readImportRecords(
+  chunks: AsyncIterable<string>,
+  format: TransferFormat,
+  schema: z.ZodTypeAny
+): AsyncGenerator<ImportRecord> {
+  // Spreadsheet programs often start files with a byte order mark
+  async function* withoutBom() {
+    let first = true;
+    for await (const chunk of chunks) {
+      yield first ? chunk.replace(/^\uFEFF/, '') : chunk;
+      first = false;
+    }
+  }
+
+  if (format === 'ndjson') {
+    for await (const line of readLines(withoutBom())) {
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        yield { error: 'Malformed JSON' };
+        continue;
+      }
+      yield typeof value === 'object' && value !== null && !Array.isArray(value)
+        ? { value: coerceJsonValue(schema, value) as Record<string, unknown> }
+        : { error: 'Line is not a JSON object' };
+    }
+    return;
+  }
+
+  const shape = getSchemaShape(schema);
+  let columns: string[] | null = null;
+  for await (const cells of readCsvRecords(withoutBom())) {
+    if (!columns) {
+      columns = cells.map(cell => cell.trim());
+      continue;
+    }
+    if (cells.length !== columns.length) {
+      yield { error: `Expected ${columns.length} columns but found ${cells.length}` };
+      continue;
+    }
+    const value: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const cell = coerceCsvValue(shape[column], cells[index]);
+      if (cell !== undefined) {
+        value[column] = cell;
+      }
+    });
+    yield { value };
+  }
+}
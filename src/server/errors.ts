@@ -0,0 +1,78 @@
+/**
+ * Error classification for collection endpoints
+ */
+
+import { z } from 'zod';
+import { formatZodIssues } from './validation';
+import { AuthorizationError } from './authorization';
+import { MissingTenantError } from './tenancy';
+import { ForbiddenFieldsError, formatForbiddenFields } from './fieldPermissions';
+
+/**
+ * Error thrown when a request body is not valid JSON
+ */
+export class InvalidBodyError extends Error {
+  constructor(message: string = 'Malformed JSON body') {
+    super(message);
+    this.name = 'InvalidBodyError';
+  }
+}
+
+/**
+ * Check whether an error is a MongoDB duplicate key error
+ *
+ * @param error The error raised by a write
+ * @returns True for E11000 duplicate key errors
+ */
+export function isDuplicateKeyError(
+  error: unknown
+): error is { code: number; keyPattern?: Record<string, unknown> } {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
+
+/**
+ * Build the response for errors caused by the client's request
+ *
+ * Validation failures, malformed bodies and requests without a tenant
+ * become 400 responses, denied requests and protected fields a 401 or 403
+ * and duplicate keys a 409. Anything else is unexpected and left to the caller.
+ *
+ * @param error The error raised while handling the request
+ * @returns The error response, or null if the error is not a client error
+ */
+export function clientErrorResponse(error: unknown): Response | null {
+  let status: number;
+  let body: Record<string, unknown>;
+
+  if (error instanceof z.ZodError) {
+    status = 400;
+    body = { success: false, error: 'Validation failed', errors: formatZodIssues(error) };
+  } else if (error instanceof InvalidBodyError || error instanceof MissingTenantError) {
+    status = 400;
+    body = { success: false, error: error.message };
+  } else if (error instanceof AuthorizationError) {
+    status = error.status;
+    body = { success: false, error: error.message };
+  } else if (error instanceof ForbiddenFieldsError) {
+    status = 403;
+    body = { success: false, error: error.message, errors: formatForbiddenFields(error) };
+  } else if (isDuplicateKeyError(error)) {
+    status = 409;
+    body = {
+      success: false,
+      error: 'An item with the same unique value already exists',
+      errors: Object.keys(error.keyPattern || {}).map(field => ({
+        path: [field],
+        code: 'duplicate_key',
+        message: 'Value must be unique',
+      })),
+    };
+  } else {
+    return null;
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
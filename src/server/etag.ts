@@ -0,0 +1,39 @@
+/**
+ * ETag helpers for conditional GET requests
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Compute a strong ETag for a serialized response body
+ *
+ * @param body The response body
+ * @returns The quoted ETag value
+ */
+export function computeETag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Check whether an `If-None-Match` header matches an ETag
+ *
+ * Uses the weak comparison required for `If-None-Match`, so `W/"x"` matches
+ * `"x"`.
+ *
+ * @param header The raw header value
+ * @param etag The ETag of the current representation
+ * @returns True if the client's copy is still current
+ */
+export function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+
+  const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+  const current = strip(etag);
+
+  return header.split(',').some(tag => {
+    const candidate = tag.trim();
+    return candidate === '*' || strip(candidate) === current;
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Field-level permission helpers for collection endpoints
+ */
+
+import { FieldPermissionOptions, FieldPolicy, ValidationIssue } from '../shared/types';
+
+/**
+ * Resolved field permission settings for a collection
+ */
+export interface FieldPermissionConfig {
+  fields: Record<string, FieldPolicy>;
+  getRoles: (principal: any, req: Request) => string[];
+}
+
+/**
+ * Error thrown when a request touches fields the caller may not use
+ */
+export class ForbiddenFieldsError extends Error {
+  fields: string[];
+
+  constructor(fields: string[], message: string = 'Not allowed to write these fields') {
+    super(message);
+    this.name = 'ForbiddenFieldsError';
+    this.fields = fields;
+  }
+}
+
+/**
+ * Convert a ForbiddenFieldsError into serializable issues
+ *
+ * @param error The error thrown for protected fields
+ * @returns One issue per protected field
+ */
+export function formatForbiddenFields(error: ForbiddenFieldsError): ValidationIssue[] {
+  return error.fields.map(field => ({
+    path: [field],
+    code: 'forbidden',
+    message: 'Field is not permitted for your role',
+  }));
+}
+
+/**
+ * Read the caller's roles from the principal attached by `authorize`
+ *
+ * @param principal The principal, if any
+ * @returns `principal.roles` or `principal.role`, or no roles for guests
+ */
+function getPrincipalRoles(principal: any): string | string[] {
+  return principal?.roles ?? principal?.role ?? [];
+}
+
+/**
+ * Resolve the `fieldPermissions` API option
+ *
+ * @param option The option passed to createCollectionApi
+ * @returns The resolved settings, or null if field permissions are disabled
+ */
+export function resolveFieldPermissions(
+  option: FieldPermissionOptions | undefined
+): FieldPermissionConfig | null {
+  if (!option) {
+    return null;
+  }
+  const { fields, roles = getPrincipalRoles } = option;
+  return {
+    fields,
+    getRoles: (principal, req) => {
+      const resolved = roles(principal, req);
+      return Array.isArray(resolved) ? resolved : [resolved];
+    },
+  };
+}
+
+/**
+ * Check whether any of the caller's roles is allowed by a policy entry
+ */
+function isAllowed(allowed: string[] | undefined, roles: string[]): boolean {
+  return !allowed || roles.some(role => allowed.includes(role));
+}
+
+/**
+ * List the given fields the caller may not read
+ *
+ * @param fields Field names used by the request
+ * @param config The collection's field permission settings
+ * @param roles The caller's roles
+ * @returns The unreadable fields
+ */
+export function getUnreadableFields(
+  fields: string[],
+  config: FieldPermissionConfig,
+  roles: string[]
+): string[] {
+  return fields.filter(field => !isAllowed(config.fields[field]?.read, roles));
+}
+
+/**
+ * List the fields of a write body the caller may not write
+ *
+ * @param body The request body
+ * @param config The collection's field permission settings
+ * @param roles The caller's roles
+ * @returns The unwritable fields present in the body
+ */
+export function getUnwritableFields(
+  body: Record<string, unknown>,
+  config: FieldPermissionConfig,
+  roles: string[]
+): string[] {
+  return Object.keys(body).filter(field => !isAllowed(config.fields[field]?.write, roles));
+}
+
+/**
+ * Remove the fields the caller may not read from response data
+ *
+ * @param data A document or an array of documents
+ * @param config The collection's field permission settings
+ * @param roles The caller's roles
+ * @returns The redacted data
+ */
+export function redactFields<D>(data: D, config: FieldPermissionConfig, roles: string[]): D {
+  if (Array.isArray(data)) {
+    return data.map(item => redactFields(item, config, roles)) as D;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return data;
+  }
+
+  const hidden = getUnreadableFields(Object.keys(config.fields), config, roles);
+  if (hidden.length === 0) {
+    return data;
+  }
+
+  const redacted: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+  for (const field of hidden) {
+    delete redacted[field];
+  }
+  return redacted as D;
+}
+
+/**
+ * Build the cache key suffix that separates responses by role
+ *
+ * Callers who may read the same fields share a suffix, so guests and users
+ * without extra permissions share cached responses.
+ *
+ * @param config The collection's field permission settings
+ * @param roles The caller's roles
+ * @returns The suffix to append to cache keys
+ */
+export function getRoleCacheSuffix(config: FieldPermissionConfig, roles: string[]): string {
+  const readable = Object.keys(config.fields)
+    .filter(field => isAllowed(config.fields[field].read, roles))
+    .sort();
+  return `#read=${readable.join(',')}`;
+}
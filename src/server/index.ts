@@ -2,12 +2,64 @@
 export { configureCollectionHooks, getDatabase, closeConnection } from './config';
 
 // Export server utilities
-export { default as serverCache } from './cache';
+export { default as serverCache, ServerCache } from './cache';
+export { createRedisCacheStore } from './cacheStore';
 export { createCollectionApi } from './createCollectionApi';
+export { createCollectionRouter } from './createCollectionRouter';
 export { getCollection } from './database';
+export { ensureIndexes } from './indexes';
+export {
+  createInProcessInvalidationBus,
+  createMongoInvalidationBus,
+  createPubSubInvalidationBus,
+} from './invalidationBus';
+export {
+  createNodeMiddleware,
+  createPagesApiHandler,
+  sendFetchResponse,
+  toFetchRequest,
+} from './nodeAdapter';
+export { createOpenApiHandler, generateOpenApiDocument } from './openApi';
 
 // Export types
 export {
   ApiOptions,
+  AuthorizeContext,
+  AuthorizeResult,
+  BulkItemResult,
+  CacheInvalidation,
+  CacheLoadOptions,
+  CacheQuota,
+  CacheSetOptions,
+  CacheStore,
+  ChangeEvent,
+  ChangeFeedOptions,
+  ChangeOperation,
   CollectionApi,
+  CollectionOperation,
+  CollectionRouteContext,
+  CollectionRouteDefinition,
+  CollectionRouter,
+  ConcurrencyOptions,
+  EnsureIndexesOptions,
+  FieldPermissionOptions,
+  FieldPolicy,
+  FilterOperator,
+  HookContext,
+  ImportSummary,
+  IndexConflict,
+  IndexDefinition,
+  IndexReport,
+  InvalidationBus,
+  MongoInvalidationBusOptions,
+  OpenApiOptions,
+  PagesApiHandlerOptions,
+  PaginationOptions,
+  PubSubInvalidationBusOptions,
+  RedisCacheStoreOptions,
+  RedisCommand,
+  ServerCacheOptions,
+  SoftDeleteOptions,
+  TenantOptions,
+  ValidationIssue,
 } from '../shared/types';
@@ -0,0 +1,230 @@
+/**
+ * Declared collection indexes and their synchronization with MongoDB
+ */
+
+import {
+  EnsureIndexesOptions,
+  IndexDefinition,
+  IndexReport,
+} from '../shared/types';
+import { getCollection } from './database';
+
+// Indexes declared by every collection API, keyed by MongoDB collection name
+const declaredIndexes = new Map<string, IndexDefinition[]>();
+
+// Set by configureCollectionHooks to ensure indexes as soon as they are declared
+let ensureOnDeclare = false;
+
+// MongoDB error raised when listing the indexes of a collection that does not exist yet
+const NAMESPACE_NOT_FOUND = 26;
+
+/**
+ * Get the name of an index
+ *
+ * Without an explicit name this is the name MongoDB generates, joining each
+ * field with its direction, e.g. `status_1_createdAt_-1`.
+ *
+ * @param definition The index declaration
+ * @returns The index name
+ */
+export function getIndexName(definition: IndexDefinition): string {
+  return definition.name
+    || Object.entries(definition.fields).map(([field, type]) => `${field}_${type}`).join('_');
+}
+
+/**
+ * Describe an index's fields in a form that does not depend on how it was stored
+ *
+ * MongoDB lists text indexes with `_fts`/`_ftsx` keys and their fields as
+ * `weights`, in no particular order, so text fields are compared as a set.
+ *
+ * @param fields Declared fields, or the `key` of a listed index
+ * @param weights The `weights` of a listed text index
+ * @returns A string that is equal for indexes on the same fields
+ */
+function fieldSignature(fields: Record<string, unknown>, weights?: Record<string, unknown>): string {
+  const textFields = Object.keys(weights || {});
+  const parts: string[] = [];
+  for (const [field, type] of Object.entries(fields)) {
+    if (field === '_fts' || field === '_ftsx') {
+      continue;
+    }
+    if (type === 'text') {
+      textFields.push(field);
+    } else {
+      parts.push(`${field}:${type}`);
+    }
+  }
+  if (textFields.length > 0) {
+    parts.push(`text(${textFields.sort().join(',')})`);
+  }
+  return parts.join(',');
+}
+
+/**
+ * Check whether a listed index matches its declaration
+ */
+function matchesDeclaration(definition: IndexDefinition, existing: Record<string, any>): boolean {
+  return existing.name === getIndexName(definition)
+    && fieldSignature(existing.key, existing.weights) === fieldSignature(definition.fields)
+    && Boolean(existing.unique) === Boolean(definition.unique)
+    && existing.expireAfterSeconds === definition.expireAfterSeconds
+    && JSON.stringify(existing.partialFilterExpression)
+      === JSON.stringify(definition.partialFilterExpression);
+}
+
+/**
+ * Declare the indexes a collection needs
+ *
+ * Declarations from several APIs for the same collection are merged, and
+ * the first declaration of an index on the same fields wins.
+ *
+ * @param collectionName The MongoDB collection name
+ * @param definitions The collection's indexes
+ */
+export function declareIndexes(collectionName: string, definitions: IndexDefinition[]): void {
+  const declared = declaredIndexes.get(collectionName) || [];
+  const signatures = new Set(declared.map(definition => fieldSignature(definition.fields)));
+  for (const definition of definitions) {
+    const signature = fieldSignature(definition.fields);
+    if (!signatures.has(signature)) {
+      signatures.add(signature);
+      declared.push(definition);
+    }
+  }
+  declaredIndexes.set(collectionName, declared);
+
+  if (ensureOnDeclare) {
+    runEnsureIndexes({ collections: [collectionName] });
+  }
+}
+
+/**
+ * Compare a collection's indexes with their declarations, creating missing ones
+ *
+ * @param collectionName The MongoDB collection name
+ * @param definitions The collection's declared indexes
+ * @param dryRun Whether to only report missing indexes
+ * @returns The collection's index report
+ */
+async function ensureCollectionIndexes(
+  collectionName: string,
+  definitions: IndexDefinition[],
+  dryRun: boolean
+): Promise<IndexReport> {
+  const report: IndexReport = {
+    collection: collectionName,
+    created: [],
+    unchanged: [],
+    conflicts: [],
+    extra: [],
+    errors: [],
+  };
+
+  const collection = await getCollection(collectionName);
+  let existing: Record<string, any>[];
+  try {
+    existing = await collection.listIndexes().toArray();
+  } catch (error: any) {
+    if (error?.code !== NAMESPACE_NOT_FOUND) {
+      throw error;
+    }
+    existing = [];
+  }
+
+  const matched = new Set<string>();
+  for (const definition of definitions) {
+    const name = getIndexName(definition);
+    const signature = fieldSignature(definition.fields);
+    // An index on the same fields under another name blocks creating this one
+    const current = existing.find(index => index.name === name)
+      || existing.find(index => fieldSignature(index.key, index.weights) === signature);
+
+    if (current) {
+      matched.add(current.name);
+      if (matchesDeclaration(definition, current)) {
+        report.unchanged.push(name);
+      } else {
+        report.conflicts.push({ name, declared: definition, existing: current });
+      }
+      continue;
+    }
+
+    if (dryRun) {
+      report.created.push(name);
+      continue;
+    }
+    try {
+      const { fields, ...options } = definition;
+      await collection.createIndex(fields, { ...options, name });
+      report.created.push(name);
+    } catch (error) {
+      // e.g. a unique index over documents that already have duplicates
+      report.errors.push({ name, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  report.extra = existing
+    .map(index => index.name as string)
+    .filter(name => name !== '_id_' && !matched.has(name));
+  return report;
+}
+
+/**
+ * Create declared indexes that are missing and report drift
+ *
+ * Safe to run any number of times: existing indexes are never dropped or
+ * changed. Indexes that differ from their declaration are reported as
+ * conflicts, and indexes nobody declared as extra, for someone to resolve
+ * by hand.
+ *
+ * @param options The collections to check, and whether to only report
+ * @returns One report per collection
+ */
+export async function ensureIndexes(options: EnsureIndexesOptions = {}): Promise<IndexReport[]> {
+  const { collections, dryRun = false } = options;
+  const reports: IndexReport[] = [];
+  for (const [collectionName, definitions] of declaredIndexes) {
+    if (!collections || collections.includes(collectionName)) {
+      reports.push(await ensureCollectionIndexes(collectionName, definitions, dryRun));
+    }
+  }
+  return reports;
+}
+
+/**
+ * Ensure indexes in the background, logging drift and failures
+ */
+function runEnsureIndexes(options: EnsureIndexesOptions = {}): void {
+  ensureIndexes(options)
+    .then(reports => {
+      for (const report of reports) {
+        const { collection, conflicts, extra, errors } = report;
+        if (conflicts.length > 0 || extra.length > 0 || errors.length > 0) {
+          console.warn(`Indexes of ${collection} differ from their declarations:`, {
+            conflicts: conflicts.map(conflict => conflict.name),
+            extra,
+            errors,
+          });
+        }
+      }
+    })
+    .catch(error => {
+      console.error('Error ensuring indexes:', error);
+    });
+}
+
+/**
+ * Turn ensuring indexes on connection on or off
+ *
+ * When turned on, indexes already declared are ensured once the database
+ * is connected, and indexes declared later are ensured straight away.
+ *
+ * @param enabled Whether to ensure indexes automatically
+ */
+export function setEnsureIndexesOnConnect(enabled: boolean): void {
+  ensureOnDeclare = enabled;
+  if (enabled) {
+    runEnsureIndexes();
+  }
+}
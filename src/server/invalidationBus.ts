@@ -0,0 +1,306 @@
+/**
+ * Cache invalidation across server instances
+ *
+ * Collection APIs publish the tags they invalidate to a bus, and every
+ * instance subscribed to it removes them from its own cache store, so
+ * instances can keep a fast in-memory cache without serving stale data.
+ */
+
+import { ChangeStream, ChangeStreamOptions } from 'mongodb';
+import {
+  CacheInvalidation,
+  CacheStore,
+  InvalidationBus,
+  MongoInvalidationBusOptions,
+  PubSubInvalidationBusOptions,
+} from '../shared/types';
+import { getCacheStore } from './cacheStore';
+import { getCollection } from './database';
+import { declareIndexes } from './indexes';
+
+const DEFAULT_COLLECTION_NAME = 'cache_invalidations';
+const DEFAULT_EXPIRE_AFTER_SECONDS = 60 * 60; // 1 hour
+const DEFAULT_CHANNEL = 'collection-hooks:invalidations';
+
+// Reconnect delays double from the minimum up to the maximum
+const MIN_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 30 * 1000; // 30 seconds
+
+interface Subscription {
+  stores: Set<() => CacheStore>;  // Resolved when a message arrives, as the default store can change
+  unsubscribe: () => void;
+}
+
+// One subscription per bus, shared by every API using it
+const subscriptions = new Map<InvalidationBus, Subscription>();
+
+let defaultBus: InvalidationBus | null = null;
+
+/**
+ * Remove invalidated entries from a cache store, logging failures
+ */
+async function applyInvalidation(store: CacheStore, invalidation: CacheInvalidation) {
+  try {
+    for (const tag of invalidation.tags) {
+      await store.invalidateTag(tag);
+    }
+    for (const key of invalidation.keys || []) {
+      await store.delete(key);
+    }
+  } catch (error) {
+    console.error('Error applying cache invalidation:', error);
+  }
+}
+
+/**
+ * Make sure a bus's invalidations are applied to a cache store
+ *
+ * Each bus is subscribed to once, and a message is applied once to each
+ * distinct store, however many APIs share them.
+ *
+ * @param bus The invalidation bus
+ * @param getStore Gets the store to apply invalidations to
+ */
+export function attachInvalidationBus(bus: InvalidationBus, getStore: () => CacheStore): void {
+  const existing = subscriptions.get(bus);
+  if (existing) {
+    existing.stores.add(getStore);
+    return;
+  }
+
+  const stores = new Set([getStore]);
+  const unsubscribe = bus.subscribe(invalidation => {
+    const targets = new Set([...stores].map(get => get()));
+    for (const store of targets) {
+      applyInvalidation(store, invalidation);
+    }
+  });
+  subscriptions.set(bus, { stores, unsubscribe });
+}
+
+/**
+ * Stop applying a bus's invalidations to a cache store
+ *
+ * The bus is unsubscribed from once no store is left.
+ */
+function detachInvalidationBus(bus: InvalidationBus, getStore: () => CacheStore): void {
+  const subscription = subscriptions.get(bus);
+  if (!subscription) {
+    return;
+  }
+  subscription.stores.delete(getStore);
+  if (subscription.stores.size === 0) {
+    subscription.unsubscribe();
+    subscriptions.delete(bus);
+  }
+}
+
+/**
+ * Get the bus used by APIs without an `invalidationBus` option
+ */
+export function getInvalidationBus(): InvalidationBus | null {
+  return defaultBus;
+}
+
+/**
+ * Set the bus used by APIs without an `invalidationBus` option
+ *
+ * The default cache store is subscribed to the new bus and unsubscribed
+ * from the previous one.
+ *
+ * @param bus The bus, or undefined for none
+ */
+export function setInvalidationBus(bus: InvalidationBus | undefined): void {
+  if (defaultBus === (bus || null)) {
+    return;
+  }
+  if (defaultBus) {
+    detachInvalidationBus(defaultBus, getCacheStore);
+  }
+  defaultBus = bus || null;
+  if (defaultBus) {
+    attachInvalidationBus(defaultBus, getCacheStore);
+  }
+}
+
+/**
+ * Publish an invalidation, logging rather than failing if the bus cannot be reached
+ *
+ * @param bus The invalidation bus
+ * @param invalidation The invalidated tags and keys
+ */
+export async function publishInvalidation(
+  bus: InvalidationBus,
+  invalidation: CacheInvalidation
+): Promise<void> {
+  try {
+    await bus.publish(invalidation);
+  } catch (error) {
+    console.error('Error publishing cache invalidation:', error);
+  }
+}
+
+/**
+ * Read an invalidation from a message, ignoring anything malformed
+ */
+function parseInvalidation(message: unknown): CacheInvalidation | null {
+  const value = message as Partial<CacheInvalidation> | null;
+  if (!value || !Array.isArray(value.tags)) {
+    return null;
+  }
+  return {
+    tags: value.tags.map(String),
+    ...(Array.isArray(value.keys) ? { keys: value.keys.map(String) } : {}),
+  };
+}
+
+/**
+ * Create a bus that delivers invalidations within the process
+ *
+ * Useful in tests, and for apps running several caches in one process.
+ *
+ * @returns The invalidation bus
+ */
+export function createInProcessInvalidationBus(): InvalidationBus {
+  const listeners = new Set<(invalidation: CacheInvalidation) => void>();
+  return {
+    publish(invalidation) {
+      for (const listener of listeners) {
+        listener(invalidation);
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Create a bus that passes invalidations through a MongoDB collection
+ *
+ * Invalidations are inserted into the collection and read back by every
+ * instance through a change stream, which needs a replica set. Documents
+ * expire through a TTL index, declared for ensureIndexes. A broken stream
+ * is reopened with exponential backoff, resuming after the last
+ * invalidation received.
+ *
+ * @param options The collection and how long invalidations are kept
+ * @returns The invalidation bus
+ */
+export function createMongoInvalidationBus(
+  options: MongoInvalidationBusOptions = {}
+): InvalidationBus {
+  const {
+    collectionName = DEFAULT_COLLECTION_NAME,
+    expireAfterSeconds = DEFAULT_EXPIRE_AFTER_SECONDS,
+  } = options;
+
+  declareIndexes(collectionName, [{ fields: { createdAt: 1 }, expireAfterSeconds }]);
+
+  return {
+    async publish(invalidation) {
+      const collection = await getCollection(collectionName);
+      await collection.insertOne({ ...invalidation, createdAt: new Date() });
+    },
+
+    subscribe(listener) {
+      let stopped = false;
+      let stream: ChangeStream | undefined;
+      let retryTimer: ReturnType<typeof setTimeout> | undefined;
+      let resumeAfter: unknown = null;
+      let attempt = 0;
+
+      const watch = async () => {
+        try {
+          const collection = await getCollection(collectionName);
+          if (stopped) {
+            return;
+          }
+          const watchOptions: ChangeStreamOptions = resumeAfter ? { resumeAfter } : {};
+          stream = collection.watch([{ $match: { operationType: 'insert' } }], watchOptions);
+          while (!stopped) {
+            const event: Record<string, any> = await stream.next();
+            resumeAfter = event._id;
+            attempt = 0;
+            const invalidation = parseInvalidation(event.fullDocument);
+            if (invalidation) {
+              listener(invalidation);
+            }
+          }
+        } catch (error) {
+          stream?.close().catch(() => undefined);
+          if (stopped) {
+            return;
+          }
+          console.error(`Error in ${collectionName} change stream:`, error);
+          // The token may have fallen off the oplog, so retry from now
+          if (attempt > 0) {
+            resumeAfter = null;
+          }
+          const delay = Math.min(MIN_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+          attempt += 1;
+          retryTimer = setTimeout(watch, delay);
+          retryTimer.unref?.();
+        }
+      };
+
+      watch();
+
+      return () => {
+        stopped = true;
+        clearTimeout(retryTimer);
+        stream?.close().catch(() => undefined);
+      };
+    },
+  };
+}
+
+/**
+ * Create a bus that passes invalidations through a pub/sub channel
+ *
+ * Works with any publish/subscribe service, such as Redis pub/sub, through
+ * functions that publish a message and subscribe to a channel. Messages
+ * are JSON.
+ *
+ * @param options The publish and subscribe functions and the channel
+ * @returns The invalidation bus
+ */
+export function createPubSubInvalidationBus(options: PubSubInvalidationBusOptions): InvalidationBus {
+  const { publish, subscribe, channel = DEFAULT_CHANNEL } = options;
+
+  return {
+    async publish(invalidation) {
+      await publish(channel, JSON.stringify(invalidation));
+    },
+
+    subscribe(listener) {
+      let stopped = false;
+      const onMessage = (message: string) => {
+        let invalidation: CacheInvalidation | null;
+        try {
+          invalidation = parseInvalidation(JSON.parse(message));
+        } catch {
+          return;
+        }
+        if (invalidation && !stopped) {
+          listener(invalidation);
+        }
+      };
+
+      const unsubscribe = Promise.resolve()
+        .then(() => subscribe(channel, onMessage))
+        .catch(error => {
+          console.error(`Error subscribing to ${channel}:`, error);
+          return null;
+        });
+
+      return () => {
+        stopped = true;
+        unsubscribe.then(stop => stop?.());
+      };
+    },
+  };
+}
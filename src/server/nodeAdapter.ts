@@ -0,0 +1,205 @@
+/**
+ * Adapters serving a collection API from Node `http` servers and the Pages Router
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CollectionApi, PagesApiHandlerOptions } from '../shared/types';
+import { dispatchRoute, matchRoute, routeNotFound } from './createCollectionRouter';
+
+type NodeRequest = IncomingMessage & { body?: unknown; originalUrl?: string; _body?: boolean };
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Read the raw body of a Node request
+ *
+ * A body already parsed by Express or Next.js is serialized again, so the
+ * collection handlers can read it like any other request. `req.body` is
+ * only trusted once a parser has consumed the stream, as `express.json()`
+ * sets it to `{}` even for requests it does not parse.
+ *
+ * @param req The Node request
+ * @returns The body, or undefined if the request has none
+ */
+async function readNodeBody(req: NodeRequest): Promise<string | Uint8Array | undefined> {
+  const parsed = req._body === true || req.readableEnded;
+  if (parsed && req.body !== undefined && req.body !== null) {
+    if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+      return req.body.length > 0 ? req.body : undefined;
+    }
+    return JSON.stringify(req.body);
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return chunks.length > 0 ? new Uint8Array(Buffer.concat(chunks)) : undefined;
+}
+
+/**
+ * Convert a Node request to a Fetch API request
+ *
+ * @param req The Node request
+ * @returns A Request with the same method, URL, headers and body
+ */
+export async function toFetchRequest(req: NodeRequest): Promise<Request> {
+  const encrypted = (req.socket as { encrypted?: boolean } | undefined)?.encrypted;
+  const origin = `${encrypted ? 'https' : 'http'}://${req.headers.host || 'localhost'}`;
+  const url = new URL(req.originalUrl || req.url || '/', origin);
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    // The body may have been re-serialized, so its original length no longer applies
+    if (value === undefined || name === 'content-length' || name === 'transfer-encoding') {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(name, item);
+    }
+  }
+
+  const method = req.method || 'GET';
+  const body = method === 'GET' || method === 'HEAD' ? undefined : await readNodeBody(req);
+
+  return new Request(url, { method, headers, body });
+}
+
+/**
+ * Write a Fetch API response to a Node response
+ *
+ * The body is streamed chunk by chunk, and reading stops when the client
+ * disconnects.
+ *
+ * @param res The Node response
+ * @param response The response returned by a collection handler
+ */
+export async function sendFetchResponse(res: ServerResponse, response: Response): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  res.on('close', () => {
+    reader.cancel().catch(() => undefined);
+  });
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done || res.destroyed) {
+        break;
+      }
+      res.write(value);
+    }
+  } finally {
+    res.end();
+  }
+}
+
+/**
+ * Split a URL path into decoded segments
+ *
+ * @param pathname The URL path
+ * @returns The non-empty path segments
+ */
+function toSegments(pathname: string): string[] {
+  return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+}
+
+/**
+ * Create Node middleware serving a collection API
+ *
+ * Works with Express and Connect, where the mount path is stripped from
+ * `req.url`, and with a plain `http.createServer` serving the collection
+ * from the root. Paths that match no route are passed to `next` when given,
+ * and get a 404 otherwise.
+ *
+ * @param api The collection's API handlers
+ * @returns A `(req, res, next?)` request handler
+ */
+export function createNodeMiddleware(api: CollectionApi<any>) {
+  return async function collectionMiddleware(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next?: NextFunction
+  ): Promise<void> {
+    try {
+      const segments = toSegments(new URL(req.url || '/', 'http://localhost').pathname);
+      const route = matchRoute(api, segments);
+
+      if (!route) {
+        if (next) {
+          next();
+          return;
+        }
+        await sendFetchResponse(res, routeNotFound(segments));
+        return;
+      }
+
+      const request = await toFetchRequest(req);
+      await sendFetchResponse(res, await dispatchRoute(route, request.method, request));
+    } catch (error) {
+      if (next) {
+        next(error);
+        return;
+      }
+      console.error('Error in collection middleware:', error);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+        res.setHeader('Content-Type', 'application/json');
+      }
+      res.end(JSON.stringify({ success: false, error: 'Internal Server Error' }));
+    }
+  };
+}
+
+/**
+ * Create a Pages Router API route serving a collection API
+ *
+ * Export it from an optional catch-all file such as
+ * `pages/api/posts/[[...path]].ts`.
+ *
+ * @param api The collection's API handlers
+ * @param options The name of the catch-all parameter
+ * @returns A Next.js API route handler
+ */
+export function createPagesApiHandler(
+  api: CollectionApi<any>,
+  options: PagesApiHandlerOptions = {}
+) {
+  const { param = 'path' } = options;
+
+  return async function collectionApiRoute(
+    req: NextApiRequest,
+    res: NextApiResponse
+  ): Promise<void> {
+    const value = req.query[param];
+    const segments = value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const route = matchRoute(api, segments);
+
+    if (!route) {
+      await sendFetchResponse(res, routeNotFound(segments));
+      return;
+    }
+
+    try {
+      const request = await toFetchRequest(req);
+      await sendFetchResponse(res, await dispatchRoute(route, request.method, request));
+    } catch (error) {
+      console.error('Error in collection API route:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ success: false, error: 'Internal Server Error' });
+      } else {
+        res.end();
+      }
+    }
+  };
+}
@@ -0,0 +1,813 @@
+/**
+ * OpenAPI document generation for collection endpoints
+ */
+
+import { z } from 'zod';
+import {
+  CollectionRouteDefinition,
+  FilterOperator,
+  OpenApiOptions,
+} from '../shared/types';
+import { resolveConcurrency } from './concurrency';
+import { resolveSoftDelete } from './softDelete';
+
+type JsonSchema = Record<string, unknown>;
+
+type Operation = Record<string, unknown>;
+
+/**
+ * Convert a Zod schema to a JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ *
+ * Types without a JSON equivalent, such as functions or lazy schemas,
+ * become an empty schema that accepts any value.
+ *
+ * @param schema The Zod schema
+ * @returns The JSON Schema
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const json = convertZodType(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+/**
+ * Convert a Zod schema, ignoring its description
+ */
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodString) {
+    return convertString(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return convertNumber(schema);
+  }
+  if (schema instanceof z.ZodBigInt) {
+    return { type: 'integer', format: 'int64' };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodNativeEnum) {
+    // Skip the reverse value-to-name entries TypeScript adds to numeric enums
+    const values = Object.entries(schema.enum)
+      .filter(([key]) => typeof schema.enum[schema.enum[key]] !== 'number')
+      .map(([, value]) => value);
+    return { enum: values };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) {
+      json.minItems = schema._def.minLength.value;
+    }
+    if (schema._def.maxLength) {
+      json.maxItems = schema._def.maxLength.value;
+    }
+    if (schema._def.exactLength) {
+      json.minItems = json.maxItems = schema._def.exactLength.value;
+    }
+    return json;
+  }
+  if (schema instanceof z.ZodTuple) {
+    return {
+      type: 'array',
+      prefixItems: schema.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item)),
+      ...(schema._def.rest ? { items: zodToJsonSchema(schema._def.rest) } : { items: false }),
+    };
+  }
+  if (schema instanceof z.ZodObject) {
+    return convertObject(schema);
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: schema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: schema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [zodToJsonSchema(schema._def.left), zodToJsonSchema(schema._def.right)] };
+  }
+
+  return {};
+}
+
+/**
+ * Convert a Zod string and the checks that have a JSON Schema keyword
+ */
+function convertString(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'min':
+        json.minLength = check.value;
+        break;
+      case 'max':
+        json.maxLength = check.value;
+        break;
+      case 'length':
+        json.minLength = json.maxLength = check.value;
+        break;
+      case 'email':
+        json.format = 'email';
+        break;
+      case 'url':
+        json.format = 'uri';
+        break;
+      case 'uuid':
+        json.format = 'uuid';
+        break;
+      case 'datetime':
+        json.format = 'date-time';
+        break;
+      case 'date':
+        json.format = 'date';
+        break;
+      case 'regex':
+        json.pattern = check.regex.source;
+        break;
+    }
+  }
+  return json;
+}
+
+/**
+ * Convert a Zod number and its bounds
+ */
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case 'int':
+        json.type = 'integer';
+        break;
+      case 'min':
+        json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        break;
+      case 'max':
+        json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+        break;
+      case 'multipleOf':
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+  return json;
+}
+
+/**
+ * Convert a Zod object, requiring every field that is not optional
+ */
+function convertObject(schema: z.AnyZodObject): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, fieldSchema] of Object.entries(schema.shape as z.ZodRawShape)) {
+    properties[key] = zodToJsonSchema(fieldSchema);
+    if (!fieldSchema.isOptional()) {
+      required.push(key);
+    }
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) {
+    json.required = required;
+  }
+  if (schema._def.unknownKeys === 'strict') {
+    json.additionalProperties = false;
+  }
+  return json;
+}
+
+/**
+ * Name of the component schema for a collection's items
+ *
+ * @param name The collection's route segment
+ * @returns The segment in PascalCase, e.g. `blog-posts` becomes `BlogPosts`
+ */
+function componentName(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+// JSON reference to a shared component
+const ref = (kind: 'schemas' | 'responses', name: string) => ({
+  $ref: `#/components/${kind}/${name}`,
+});
+
+const jsonContent = (schema: JsonSchema) => ({ 'application/json': { schema } });
+
+/**
+ * Schema of the `{ success, data }` envelope every handler responds with
+ */
+function envelope(data: JsonSchema, extra: Record<string, JsonSchema> = {}): JsonSchema {
+  return {
+    type: 'object',
+    properties: { success: { const: true }, data, ...extra },
+    required: ['success', 'data'],
+  };
+}
+
+/**
+ * Describe a JSON response
+ */
+function jsonResponse(description: string, schema: JsonSchema, headers?: JsonSchema) {
+  return { description, ...(headers ? { headers } : {}), content: jsonContent(schema) };
+}
+
+/**
+ * Schemas and responses shared by every collection
+ */
+function sharedComponents() {
+  const errorResponse = (description: string) =>
+    jsonResponse(description, ref('schemas', 'ErrorResponse'));
+
+  return {
+    schemas: {
+      ValidationIssue: {
+        type: 'object',
+        properties: {
+          path: { type: 'array', items: { type: ['string', 'integer'] } },
+          code: { type: 'string' },
+          message: { type: 'string' },
+        },
+        required: ['path', 'code', 'message'],
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          success: { const: false },
+          error: { type: 'string' },
+          errors: { type: 'array', items: ref('schemas', 'ValidationIssue') },
+        },
+        required: ['success', 'error'],
+      },
+      BulkItemResult: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          id: { type: 'string' },
+          status: { enum: ['ok', 'invalid', 'forbidden', 'not_found', 'error'] },
+          error: { type: 'string' },
+          issues: { type: 'array', items: ref('schemas', 'ValidationIssue') },
+        },
+        required: ['index', 'status'],
+      },
+      DeletedItem: envelope({
+        type: 'object',
+        properties: { id: { type: 'string' } },
+        required: ['id'],
+      }),
+      ImportSummary: envelope({
+        type: 'object',
+        properties: {
+          dryRun: { type: 'boolean' },
+          total: { type: 'integer' },
+          inserted: { type: 'integer' },
+          updated: { type: 'integer' },
+          failed: { type: 'integer' },
+          errors: { type: 'array', items: ref('schemas', 'BulkItemResult') },
+        },
+        required: ['dryRun', 'total', 'inserted', 'updated', 'failed', 'errors'],
+      }),
+    },
+    responses: {
+      BadRequest: errorResponse('The request is invalid, e.g. it fails validation'),
+      Unauthorized: errorResponse('Authentication is required'),
+      Forbidden: errorResponse('The caller may not perform this operation or write these fields'),
+      NotFound: errorResponse('The item does not exist'),
+      Conflict: errorResponse('The write conflicts with existing data'),
+      PreconditionFailed: errorResponse('The If-Match header does not match the current version'),
+      PreconditionRequired: errorResponse('The If-Match header is missing'),
+      InternalError: errorResponse('An unexpected error occurred'),
+    },
+  };
+}
+
+/**
+ * Schema of the query parameter for one filter operator
+ *
+ * @param operator The filter operator
+ * @param fieldSchema The JSON Schema of the filtered field
+ * @returns The parameter's schema
+ */
+function filterParameterSchema(operator: FilterOperator, fieldSchema: JsonSchema = {}): JsonSchema {
+  switch (operator) {
+    case 'in':
+    case 'nin':
+      return { type: 'string', description: 'Comma-separated values' };
+    case 'exists':
+      return { type: 'boolean' };
+    case 'regex':
+      return { type: 'string' };
+    default:
+      return fieldSchema;
+  }
+}
+
+/**
+ * Build the operations of one collection
+ *
+ * @param name The collection's route segment
+ * @param definition The collection's schema and API options
+ * @param basePath The path the collection is served under
+ * @returns The collection's path items keyed by path, and its component schemas
+ */
+function collectionPaths(
+  name: string,
+  definition: CollectionRouteDefinition,
+  basePath: string
+) {
+  const {
+    schema,
+    filters = {},
+    pagination = false,
+    tenant,
+    authorize,
+    fieldPermissions,
+    hooks = {},
+  } = definition;
+  const page = pagination === true ? {} : pagination || null;
+  const concurrency = resolveConcurrency(definition.concurrency);
+  const softDelete = resolveSoftDelete(definition.softDelete);
+
+  const itemName = componentName(name) || 'Item';
+  const itemSchema = zodToJsonSchema(schema);
+  const { required, ...patchSchema } = itemSchema;
+  if (patchSchema.properties) {
+    const { id, ...properties } = patchSchema.properties as Record<string, JsonSchema>;
+    patchSchema.properties = properties;
+    patchSchema.additionalProperties = false;
+  }
+
+  const item = ref('schemas', itemName);
+  const itemList = { type: 'array', items: item };
+  const bulkResults = envelope({ type: 'array', items: ref('schemas', 'BulkItemResult') });
+  const etagHeader = {
+    ETag: { description: 'Version of the returned data', schema: { type: 'string' } },
+  };
+
+  const commonParameters: JsonSchema[] = [];
+  if (tenant?.header) {
+    commonParameters.push({
+      name: tenant.header,
+      in: 'header',
+      required: true,
+      description: 'Tenant the request is scoped to',
+      schema: { type: 'string' },
+    });
+  }
+
+  const idParameter = {
+    name: 'id',
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  };
+  const fieldsParameter = {
+    name: 'fields',
+    in: 'query',
+    description: 'Comma-separated fields to return',
+    schema: { type: 'string' },
+  };
+  const ifNoneMatch = {
+    name: 'If-None-Match',
+    in: 'header',
+    description: 'Answer 304 if the data still has this ETag',
+    schema: { type: 'string' },
+  };
+  const ifMatch = {
+    name: 'If-Match',
+    in: 'header',
+    required: true,
+    description: 'ETag of the version being replaced',
+    schema: { type: 'string' },
+  };
+
+  const formatParameter = (description: string) => ({
+    name: 'format',
+    in: 'query',
+    description,
+    schema: { enum: ['ndjson', 'jsonl', 'csv'] },
+  });
+
+  const listParameters: JsonSchema[] = [
+    {
+      name: 'sort',
+      in: 'query',
+      description: 'Comma-separated fields to sort by, prefixed with `-` for descending order',
+      schema: { type: 'string' },
+    },
+    fieldsParameter,
+  ];
+  if (page) {
+    listParameters.push(
+      {
+        name: 'limit',
+        in: 'query',
+        schema: {
+          type: 'integer',
+          minimum: 1,
+          maximum: page.maxLimit ?? 500,
+          default: page.defaultLimit ?? 50,
+        },
+      },
+      {
+        name: 'cursor',
+        in: 'query',
+        description: 'The `nextCursor` of the previous page',
+        schema: { type: 'string' },
+      }
+    );
+  }
+  const shape = (itemSchema.properties || {}) as Record<string, JsonSchema>;
+  for (const [field, operators] of Object.entries(filters) as [string, FilterOperator[]][]) {
+    for (const operator of operators) {
+      listParameters.push({
+        name: operator === 'eq' ? field : `${field}[${operator}]`,
+        in: 'query',
+        schema: filterParameterSchema(operator, shape[field]),
+      });
+    }
+  }
+
+  const listResponse = envelope(itemList, {
+    cached: { type: 'boolean' },
+    ...(page ? { nextCursor: { type: ['string', 'null'] }, hasMore: { type: 'boolean' } } : {}),
+  });
+
+  // Every operation can be denied when access is restricted
+  const denied = authorize
+    ? { '401': ref('responses', 'Unauthorized'), '403': ref('responses', 'Forbidden') }
+    : {};
+  const forbiddenWrite =
+    fieldPermissions || authorize ? { '403': ref('responses', 'Forbidden') } : {};
+  const invalid = tenant ? { '400': ref('responses', 'BadRequest') } : {};
+  const versioned = concurrency
+    ? {
+        '412': ref('responses', 'PreconditionFailed'),
+        '428': ref('responses', 'PreconditionRequired'),
+      }
+    : {};
+
+  const operation = (
+    operationId: string,
+    summary: string,
+    responses: Record<string, unknown>,
+    extra: Operation = {}
+  ): Operation => {
+    const { parameters = [], ...rest } = extra as { parameters?: JsonSchema[] };
+    const allParameters = [...commonParameters, ...parameters];
+    return {
+      operationId: `${operationId}${itemName}`,
+      summary,
+      tags: [name],
+      ...(allParameters.length > 0 ? { parameters: allParameters } : {}),
+      ...rest,
+      responses: {
+        ...invalid,
+        ...denied,
+        ...responses,
+        '500': ref('responses', 'InternalError'),
+      },
+    };
+  };
+
+  const body = (schema: JsonSchema) => ({ required: true, content: jsonContent(schema) });
+  const written = (description: string) =>
+    jsonResponse(description, envelope(item), concurrency ? etagHeader : undefined);
+  const bulkResponses = (description: string) => ({
+    '200': jsonResponse(description, bulkResults),
+    '400': ref('responses', 'BadRequest'),
+  });
+  const uncachedList = envelope(itemList, { cached: { const: false } });
+  const collectionPath = `${basePath}/${name}`;
+
+  const paths: Record<string, Record<string, Operation>> = {
+    [collectionPath]: {
+      get: operation(
+        'list',
+        `List ${name}`,
+        {
+          '200': jsonResponse('The items', listResponse, etagHeader),
+          '304': { description: 'The list has not changed' },
+          '400': ref('responses', 'BadRequest'),
+          ...(fieldPermissions ? { '403': ref('responses', 'Forbidden') } : {}),
+        },
+        { parameters: [...listParameters, ifNoneMatch] }
+      ),
+      post: operation(
+        'create',
+        `Create a ${name} item`,
+        {
+          '200': written('The created item'),
+          '400': ref('responses', 'BadRequest'),
+          ...forbiddenWrite,
+          '409': ref('responses', 'Conflict'),
+        },
+        { requestBody: body(item) }
+      ),
+    },
+    [`${collectionPath}/{id}`]: {
+      get: operation(
+        'get',
+        `Get a ${name} item`,
+        {
+          '200': jsonResponse(
+            'The item',
+            envelope(item, { cached: { type: 'boolean' } }),
+            etagHeader
+          ),
+          '304': { description: 'The item has not changed' },
+          '404': ref('responses', 'NotFound'),
+        },
+        { parameters: [idParameter, fieldsParameter, ifNoneMatch] }
+      ),
+      put: operation(
+        'update',
+        `Replace a ${name} item`,
+        {
+          '200': written('The updated item'),
+          '400': ref('responses', 'BadRequest'),
+          ...forbiddenWrite,
+          '404': ref('responses', 'NotFound'),
+          '409': ref('responses', 'Conflict'),
+          ...versioned,
+        },
+        {
+          parameters: concurrency ? [idParameter, ifMatch] : [idParameter],
+          requestBody: body(item),
+        }
+      ),
+      patch: operation(
+        'patch',
+        `Update fields of a ${name} item`,
+        {
+          '200': written('The updated item'),
+          '400': ref('responses', 'BadRequest'),
+          ...forbiddenWrite,
+          '404': ref('responses', 'NotFound'),
+          '409': ref('responses', 'Conflict'),
+          ...versioned,
+        },
+        {
+          description: 'Fields set to `null` are removed.',
+          parameters: concurrency ? [idParameter, ifMatch] : [idParameter],
+          requestBody: body(ref('schemas', `${itemName}Patch`)),
+        }
+      ),
+      delete: operation(
+        'remove',
+        softDelete ? `Move a ${name} item to the trash` : `Delete a ${name} item`,
+        {
+          '200': jsonResponse('The deleted item ID', ref('schemas', 'DeletedItem')),
+          '404': ref('responses', 'NotFound'),
+          ...(hooks.beforeDelete ? { '409': ref('responses', 'Conflict') } : {}),
+          ...versioned,
+        },
+        { parameters: concurrency ? [idParameter, ifMatch] : [idParameter] }
+      ),
+    },
+    [`${collectionPath}/bulk`]: {
+      post: operation(
+        'bulkCreate',
+        `Create several ${name} items`,
+        bulkResponses('One result per item'),
+        { requestBody: body({ type: 'array', items: item }) }
+      ),
+      put: operation(
+        'bulkUpdate',
+        `Replace several ${name} items`,
+        bulkResponses('One result per item'),
+        { requestBody: body({ type: 'array', items: item }) }
+      ),
+      delete: operation(
+        'bulkRemove',
+        `Delete several ${name} items`,
+        bulkResponses('One result per ID'),
+        { requestBody: body({ type: 'array', items: { type: 'string' } }) }
+      ),
+    },
+    [`${collectionPath}/export`]: {
+      get: operation(
+        'export',
+        `Download all ${name} items`,
+        {
+          '200': {
+            description: 'One item per line, as NDJSON or as CSV with a header row',
+            content: {
+              'application/x-ndjson': { schema: item },
+              'text/csv': { schema: { type: 'string' } },
+            },
+          },
+          '400': ref('responses', 'BadRequest'),
+          ...(fieldPermissions ? { '403': ref('responses', 'Forbidden') } : {}),
+        },
+        {
+          parameters: [
+            ...listParameters.filter(({ name }) => name !== 'limit' && name !== 'cursor'),
+            formatParameter('Defaults to the first supported type in Accept, then NDJSON'),
+          ],
+        }
+      ),
+    },
+    [`${collectionPath}/import`]: {
+      post: operation(
+        'import',
+        `Insert or update ${name} items from a file`,
+        {
+          '200': jsonResponse(
+            'How many rows were written, and the rows that failed',
+            ref('schemas', 'ImportSummary')
+          ),
+          '400': ref('responses', 'BadRequest'),
+        },
+        {
+          description: 'Rows set their fields on the item with the same ID, or insert it. Each row is validated on its own.',
+          parameters: [
+            formatParameter('Defaults to the Content-Type, then NDJSON'),
+            {
+              name: 'dryRun',
+              in: 'query',
+              description: 'Validate the rows without writing them',
+              schema: { type: 'boolean', default: false },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              'application/x-ndjson': { schema: item },
+              'text/csv': { schema: { type: 'string' } },
+            },
+          },
+        }
+      ),
+    },
+    [`${collectionPath}/subscribe`]: {
+      get: operation(
+        'subscribe',
+        `Stream changes to ${name}`,
+        {
+          '200': {
+            description: 'Server-Sent Events whose data is a change to one item. '
+              + 'A `reset` event means changes were missed and the list must be reloaded.',
+            content: { 'text/event-stream': { schema: ref('schemas', `${itemName}Change`) } },
+          },
+        },
+        {
+          parameters: [
+            {
+              name: 'Last-Event-ID',
+              in: 'header',
+              description: 'ID of the last event received, to resume after it',
+              schema: { type: 'string' },
+            },
+            {
+              name: 'resumeAfter',
+              in: 'query',
+              description: 'Same as Last-Event-ID, for clients that cannot set headers',
+              schema: { type: 'string' },
+            },
+          ],
+        }
+      ),
+    },
+    [`${collectionPath}/refresh`]: {
+      post: operation('refresh', `Reload ${name} bypassing the cache`, {
+        '200': jsonResponse('The items', uncachedList, etagHeader),
+      }),
+    },
+  };
+
+  if (softDelete) {
+    paths[`${collectionPath}/trash`] = {
+      get: operation('listTrash', `List trashed ${name} items`, {
+        '200': jsonResponse('The trashed items', uncachedList),
+      }),
+    };
+    paths[`${collectionPath}/trash/{id}`] = {
+      post: operation(
+        'restore',
+        `Restore a trashed ${name} item`,
+        {
+          '200': jsonResponse('The restored item ID', ref('schemas', 'DeletedItem')),
+          '404': ref('responses', 'NotFound'),
+        },
+        { parameters: [idParameter] }
+      ),
+      delete: operation(
+        'purge',
+        `Permanently delete a trashed ${name} item`,
+        {
+          '200': jsonResponse('The purged item ID', ref('schemas', 'DeletedItem')),
+          '404': ref('responses', 'NotFound'),
+        },
+        { parameters: [idParameter] }
+      ),
+    };
+  }
+
+  return {
+    paths,
+    schemas: {
+      [itemName]: itemSchema,
+      [`${itemName}Patch`]: patchSchema,
+      [`${itemName}Change`]: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          operation: { enum: ['insert', 'update', 'delete'] },
+          data: { anyOf: [item, { type: 'null' }] },
+        },
+        required: ['id', 'operation', 'data'],
+      },
+    },
+  };
+}
+
+/**
+ * Generate an OpenAPI 3.1 document describing collection endpoints
+ *
+ * Paths follow the layout of createCollectionRouter. Optional endpoints,
+ * parameters and error responses only appear when the collection's
+ * options enable them.
+ *
+ * @param collections Collection definitions keyed by their route segment
+ * @param options Document metadata and the path collections are served under
+ * @returns The OpenAPI document
+ */
+export function generateOpenApiDocument(
+  collections: Record<string, CollectionRouteDefinition>,
+  options: OpenApiOptions = {}
+): Record<string, unknown> {
+  const { title = 'Collection API', version = '1.0.0', description, basePath = '/api' } = options;
+  const components = sharedComponents();
+  const paths: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(collections)) {
+    const collection = collectionPaths(name, definition, basePath.replace(/\/$/, ''));
+    Object.assign(paths, collection.paths);
+    Object.assign(components.schemas, collection.schemas);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title, version, ...(description ? { description } : {}) },
+    tags: Object.keys(collections).map(name => ({ name })),
+    paths,
+    components,
+  };
+}
+
+/**
+ * Create a route handler serving the OpenAPI document as JSON
+ *
+ * The document is generated on the first request and reused afterwards.
+ *
+ * @param collections Collection definitions keyed by their route segment
+ * @param options Document metadata and the path collections are served under
+ * @returns A GET route handler
+ */
+export function createOpenApiHandler(
+  collections: Record<string, CollectionRouteDefinition>,
+  options: OpenApiOptions = {}
+): (req: Request) => Promise<Response> {
+  let body: string | null = null;
+
+  return async () => {
+    if (body === null) {
+      body = JSON.stringify(generateOpenApiDocument(collections, options));
+    }
+    return new Response(body, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
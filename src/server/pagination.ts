@@ -0,0 +1,174 @@
+/**
+ * Cursor-based pagination for collection endpoints
+ */
+
+import { z } from 'zod';
+import { PaginationOptions } from '../shared/types';
+import { InvalidQueryError, coerceValue, getSchemaShape } from './query';
+
+/**
+ * Resolved pagination settings for a single request
+ */
+export interface PageRequest {
+  limit: number;
+  sortKey: string;
+  direction: 1 | -1;
+  after: { value: unknown; id: string } | null;
+}
+
+/**
+ * Encode the position after a document as an opaque cursor
+ *
+ * @param doc The last document of a page
+ * @param sortKey The field the collection is paginated by
+ * @returns A base64url-encoded cursor
+ */
+export function encodeCursor(doc: Record<string, any>, sortKey: string): string {
+  const value = doc[sortKey] instanceof Date ? doc[sortKey].toISOString() : doc[sortKey];
+  return Buffer.from(JSON.stringify([value, doc.id])).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ *
+ * @param cursor The cursor from the request
+ * @param sortKey The field the collection is paginated by
+ * @param schema The collection's Zod schema, used to restore the sort value's type
+ * @returns The sort value and id of the document the page starts after
+ * @throws InvalidQueryError if the cursor is malformed
+ */
+export function decodeCursor(
+  cursor: string,
+  sortKey: string,
+  schema: z.ZodTypeAny
+): { value: unknown; id: string } {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    throw new InvalidQueryError('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2 || typeof decoded[1] !== 'string') {
+    throw new InvalidQueryError('Invalid cursor');
+  }
+
+  const [rawValue, id] = decoded;
+  const value = rawValue === null || rawValue === undefined
+    ? rawValue
+    : coerceValue(sortKey, getSchemaShape(schema)[sortKey], String(rawValue));
+
+  return { value, id };
+}
+
+/**
+ * Read `limit` and `cursor` from a request's search params
+ *
+ * A requested sort replaces the configured sort key, but pages can only be
+ * ordered by a single field.
+ *
+ * @param searchParams The request's search params
+ * @param schema The collection's Zod schema
+ * @param options The collection's pagination options
+ * @param sort The sort requested through the `sort` param, if any
+ * @returns The resolved page request
+ * @throws InvalidQueryError if `limit`, `cursor` or the sort is invalid
+ */
+export function parsePageRequest(
+  searchParams: URLSearchParams,
+  schema: z.ZodTypeAny,
+  options: PaginationOptions,
+  sort: Record<string, 1 | -1> | null = null
+): PageRequest {
+  const { defaultLimit = 50, maxLimit = 500 } = options;
+
+  let sortKey = options.sortKey || 'id';
+  let direction: 1 | -1 = 1;
+  if (sort) {
+    const keys = Object.keys(sort);
+    if (keys.length !== 1) {
+      throw new InvalidQueryError('Paginated results can only be sorted by one field');
+    }
+    sortKey = keys[0];
+    direction = sort[sortKey];
+  }
+
+  let limit = defaultLimit;
+  const rawLimit = searchParams.get('limit');
+  if (rawLimit !== null) {
+    limit = Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidQueryError(`Invalid limit: ${rawLimit}`);
+    }
+  }
+
+  const cursor = searchParams.get('cursor');
+
+  return {
+    limit: Math.min(limit, maxLimit),
+    sortKey,
+    direction,
+    after: cursor ? decodeCursor(cursor, sortKey, schema) : null,
+  };
+}
+
+/**
+ * Build the MongoDB sort for a page request
+ *
+ * The document `id` is always used as a tie-breaker so the order is stable
+ * even when the sort key is not unique.
+ *
+ * @param page The page request
+ * @returns The MongoDB sort specification
+ */
+export function getPageSort(page: PageRequest): Record<string, 1 | -1> {
+  const { sortKey, direction } = page;
+  return sortKey === 'id' ? { id: direction } : { [sortKey]: direction, id: direction };
+}
+
+/**
+ * Get the conditions matching documents after a cursor by a sort key
+ *
+ * MongoDB sorts missing and null values before all others, and comparison
+ * operators never match them, so they need conditions of their own.
+ */
+function afterSortValue(page: PageRequest, value: unknown, id: string): Record<string, any>[] {
+  const { sortKey, direction } = page;
+  const op = direction === 1 ? '$gt' : '$lt';
+
+  if (value === null || value === undefined) {
+    const sameValue = { [sortKey]: null, id: { [op]: id } };
+    return direction === 1 ? [sameValue, { [sortKey]: { $ne: null } }] : [sameValue];
+  }
+
+  const conditions: Record<string, any>[] = [
+    { [sortKey]: { [op]: value } },
+    { [sortKey]: value, id: { [op]: id } },
+  ];
+  // Descending pages reach the null values last
+  if (direction === -1) {
+    conditions.push({ [sortKey]: null });
+  }
+  return conditions;
+}
+
+/**
+ * Restrict a query to documents after the page's cursor
+ *
+ * @param query The MongoDB filter for the request
+ * @param page The page request
+ * @returns The filter combined with the cursor condition
+ */
+export function applyCursor(query: Record<string, any>, page: PageRequest): Record<string, any> {
+  if (!page.after) {
+    return query;
+  }
+
+  const { value, id } = page.after;
+  const op = page.direction === 1 ? '$gt' : '$lt';
+  const condition = page.sortKey === 'id'
+    ? { id: { [op]: id } }
+    : { $or: afterSortValue(page, value, id) };
+
+  return Object.keys(query).length > 0 ? { $and: [query, condition] } : condition;
+}
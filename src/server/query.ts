@@ -0,0 +1,313 @@
+/**
+ * Request query parsing for collection endpoints
+ */
+
+import { z } from 'zod';
+import { FilterOperator } from '../shared/types';
+
+/**
+ * Error thrown when a request's query parameters cannot be parsed
+ */
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+// Search params that are never treated as field filters
+const RESERVED_PARAMS = new Set<string>(['limit', 'cursor', 'sort', 'fields']);
+
+const FILTER_PARAM_PATTERN = /^([^[\]]+)(?:\[(\w+)\])?$/;
+
+// Longest pattern accepted by the `regex` operator
+const MAX_REGEX_LENGTH = 100;
+
+// A quantified group that itself contains a quantifier, like `(a+)+`, which
+// can take exponential time to fail a match
+const NESTED_QUANTIFIER_PATTERN = /\([^()]*[+*}][^()]*\)\s*[+*{]/;
+
+/**
+ * Strip optional/nullable/default/effects wrappers from a Zod schema
+ *
+ * @param schema The Zod schema to unwrap
+ * @returns The innermost schema
+ */
+export function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+
+  while (true) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap();
+    } else if (current instanceof z.ZodDefault) {
+      current = current._def.innerType;
+    } else if (current instanceof z.ZodEffects) {
+      current = current.innerType();
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Get the object shape of a collection schema
+ *
+ * @param schema The collection's Zod schema
+ * @returns The schema's shape, or an empty object if it is not an object schema
+ */
+export function getSchemaShape(schema: z.ZodTypeAny): z.ZodRawShape {
+  const inner = unwrapSchema(schema);
+  return inner instanceof z.ZodObject ? inner.shape : {};
+}
+
+/**
+ * Coerce a raw query string value to the type declared for a field
+ *
+ * @param field The field name (used in error messages)
+ * @param fieldSchema The field's Zod schema, if the schema declares it
+ * @param raw The raw query string value
+ * @returns The coerced value
+ */
+export function coerceValue(field: string, fieldSchema: z.ZodTypeAny | undefined, raw: string): unknown {
+  if (!fieldSchema) {
+    return raw;
+  }
+
+  let inner = unwrapSchema(fieldSchema);
+
+  // Equality on an array field matches any of its elements
+  if (inner instanceof z.ZodArray) {
+    inner = unwrapSchema(inner.element);
+  }
+
+  if (inner instanceof z.ZodNumber) {
+    const value = Number(raw);
+    if (raw.trim() === '' || Number.isNaN(value)) {
+      throw new InvalidQueryError(`Invalid number for ${field}: ${raw}`);
+    }
+    return value;
+  }
+
+  if (inner instanceof z.ZodBoolean) {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new InvalidQueryError(`Invalid boolean for ${field}: ${raw}`);
+    }
+    return raw === 'true';
+  }
+
+  if (inner instanceof z.ZodDate) {
+    const value = new Date(raw);
+    if (Number.isNaN(value.getTime())) {
+      throw new InvalidQueryError(`Invalid date for ${field}: ${raw}`);
+    }
+    return value;
+  }
+
+  const result = inner.safeParse(raw);
+  if (!result.success) {
+    throw new InvalidQueryError(`Invalid value for ${field}: ${raw}`);
+  }
+  return result.data;
+}
+
+/**
+ * Check a `regex` filter value before it is sent to MongoDB
+ *
+ * @param field The field name (used in error messages)
+ * @param raw The raw pattern
+ * @returns The pattern
+ * @throws InvalidQueryError if the pattern is invalid, too long or prone
+ * to catastrophic backtracking
+ */
+function parseRegexFilter(field: string, raw: string): string {
+  if (raw.length > MAX_REGEX_LENGTH) {
+    throw new InvalidQueryError(
+      `Pattern for ${field}[regex] is longer than ${MAX_REGEX_LENGTH} characters`
+    );
+  }
+  try {
+    new RegExp(raw);
+  } catch {
+    throw new InvalidQueryError(`Invalid pattern for ${field}[regex]: ${raw}`);
+  }
+  if (NESTED_QUANTIFIER_PATTERN.test(raw)) {
+    throw new InvalidQueryError(`Pattern for ${field}[regex] has nested quantifiers: ${raw}`);
+  }
+  return raw;
+}
+
+/**
+ * Build a MongoDB filter from a request's search params
+ *
+ * Supported forms are `field=value` (equality), `field[op]=value` for the
+ * `ne`, `gt`, `gte`, `lt`, `lte`, `exists` and `regex` operators, and
+ * `field[in]=a,b,c` / `field[nin]=a,b,c` for set membership. Only fields
+ * and operators listed in `allowed` are accepted, and `regex` patterns must
+ * be valid, at most 100 characters long and free of nested quantifiers.
+ *
+ * @param searchParams The request's search params
+ * @param schema The collection's Zod schema, used to coerce values
+ * @param allowed Filterable fields and the operators allowed on each
+ * @returns The MongoDB filter
+ * @throws InvalidQueryError if a param is not allowed or its value is invalid
+ */
+export function parseFilterQuery(
+  searchParams: URLSearchParams,
+  schema: z.ZodTypeAny,
+  allowed: Record<string, FilterOperator[]> = {}
+): Record<string, Record<string, unknown>> {
+  const shape = getSchemaShape(schema);
+  const filter: Record<string, Record<string, unknown>> = {};
+
+  for (const [param, raw] of searchParams.entries()) {
+    if (RESERVED_PARAMS.has(param)) {
+      continue;
+    }
+
+    const match = FILTER_PARAM_PATTERN.exec(param);
+    if (!match) {
+      throw new InvalidQueryError(`Invalid filter parameter: ${param}`);
+    }
+
+    const field = match[1];
+    const operator = (match[2] || 'eq') as FilterOperator;
+
+    // Own properties only, so names like `constructor` are not mistaken for fields
+    if (!Object.prototype.hasOwnProperty.call(allowed, field)) {
+      throw new InvalidQueryError(`Filtering on ${field} is not allowed`);
+    }
+    if (!allowed[field].includes(operator)) {
+      throw new InvalidQueryError(`Operator ${operator} is not allowed on ${field}`);
+    }
+
+    const fieldSchema = shape[field];
+    let value: unknown;
+
+    switch (operator) {
+      case 'in':
+      case 'nin':
+        value = raw.split(',').map(item => coerceValue(field, fieldSchema, item));
+        break;
+      case 'exists':
+        if (raw !== 'true' && raw !== 'false') {
+          throw new InvalidQueryError(`Invalid boolean for ${field}[exists]: ${raw}`);
+        }
+        value = raw === 'true';
+        break;
+      case 'regex':
+        value = parseRegexFilter(field, raw);
+        break;
+      case 'eq':
+      case 'ne':
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        value = coerceValue(field, fieldSchema, raw);
+        break;
+      default:
+        throw new InvalidQueryError(`Unknown filter operator: ${operator}`);
+    }
+
+    filter[field] = { ...filter[field], [`$${operator}`]: value };
+  }
+
+  return filter;
+}
+
+/**
+ * Split a comma-separated list of schema fields, rejecting unknown fields
+ *
+ * @param param The param name (used in error messages)
+ * @param value The raw param value
+ * @param schema The collection's Zod schema
+ * @returns The field names, with any leading `-` preserved
+ */
+function parseFieldList(param: string, value: string, schema: z.ZodTypeAny): string[] {
+  const shape = getSchemaShape(schema);
+  const fields = value.split(',').map(field => field.trim()).filter(Boolean);
+
+  if (fields.length === 0) {
+    throw new InvalidQueryError(`Invalid ${param} parameter: ${value}`);
+  }
+
+  for (const field of fields) {
+    const name = field.startsWith('-') ? field.slice(1) : field;
+    if (!Object.prototype.hasOwnProperty.call(shape, name)) {
+      throw new InvalidQueryError(`Unknown field in ${param}: ${name}`);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Build a MongoDB sort from the `sort` param
+ *
+ * Fields are comma-separated and sorted ascending unless prefixed with `-`,
+ * e.g. `sort=status,-views`.
+ *
+ * @param value The raw `sort` param, if present
+ * @param schema The collection's Zod schema
+ * @returns The MongoDB sort specification, or null if no sort was requested
+ * @throws InvalidQueryError if a field is not part of the schema
+ */
+export function parseSortQuery(
+  value: string | null,
+  schema: z.ZodTypeAny
+): Record<string, 1 | -1> | null {
+  if (value === null) {
+    return null;
+  }
+
+  const sort: Record<string, 1 | -1> = {};
+  for (const field of parseFieldList('sort', value, schema)) {
+    if (field.startsWith('-')) {
+      sort[field.slice(1)] = -1;
+    } else {
+      sort[field] = 1;
+    }
+  }
+  return sort;
+}
+
+/**
+ * Build a MongoDB projection from the `fields` param
+ *
+ * The document `id` is always included so items can still be addressed.
+ *
+ * @param value The raw `fields` param, if present
+ * @param schema The collection's Zod schema
+ * @returns The MongoDB projection, or null if all fields were requested
+ * @throws InvalidQueryError if a field is not part of the schema
+ */
+export function parseFieldsQuery(
+  value: string | null,
+  schema: z.ZodTypeAny
+): Record<string, 1> | null {
+  if (value === null) {
+    return null;
+  }
+
+  const projection: Record<string, 1> = { id: 1 };
+  for (const field of parseFieldList('fields', value, schema)) {
+    if (field.startsWith('-')) {
+      throw new InvalidQueryError(`Invalid field in fields: ${field}`);
+    }
+    projection[field] = 1;
+  }
+  return projection;
+}
+
+/**
+ * Build a cache key suffix that is stable regardless of param order
+ *
+ * @param searchParams The request's search params
+ * @returns The sorted query string prefixed with `?`, or an empty string
+ */
+export function getQueryCacheSuffix(searchParams: URLSearchParams): string {
+  const params = new URLSearchParams(searchParams);
+  params.sort();
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
@@ -0,0 +1,75 @@
+/**
+ * Soft delete helpers for collection endpoints
+ */
+
+import { SoftDeleteOptions } from '../shared/types';
+
+/**
+ * Resolved soft delete settings for a collection
+ */
+export interface SoftDeleteConfig {
+  field: string;
+  retentionDays: number | null;
+}
+
+// Expired trash is purged at most this often per collection API
+export const PURGE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Resolve the `softDelete` API option
+ *
+ * @param option The option passed to createCollectionApi
+ * @returns The resolved settings, or null if soft delete is disabled
+ */
+export function resolveSoftDelete(
+  option: boolean | SoftDeleteOptions | undefined
+): SoftDeleteConfig | null {
+  if (!option) {
+    return null;
+  }
+  const { field = 'deletedAt', retentionDays = null } = option === true ? {} : option;
+  return { field, retentionDays };
+}
+
+/**
+ * Restrict a filter to documents that are not in the trash
+ *
+ * @param filter The MongoDB filter
+ * @param config The collection's soft delete settings
+ * @returns The filter, excluding soft-deleted documents
+ */
+export function excludeDeleted(
+  filter: Record<string, any>,
+  config: SoftDeleteConfig | null
+): Record<string, any> {
+  // `null` also matches documents that have never had the marker set
+  return config ? { ...filter, [config.field]: null } : filter;
+}
+
+/**
+ * Restrict a filter to documents that are in the trash
+ *
+ * @param filter The MongoDB filter
+ * @param config The collection's soft delete settings
+ * @returns The filter, matching only soft-deleted documents
+ */
+export function onlyDeleted(
+  filter: Record<string, any>,
+  config: SoftDeleteConfig
+): Record<string, any> {
+  return { ...filter, [config.field]: { $ne: null } };
+}
+
+/**
+ * Get the cutoff before which trashed documents are purged
+ *
+ * @param config The collection's soft delete settings
+ * @param now The current time
+ * @returns The cutoff date, or null if trash is kept forever
+ */
+export function getRetentionCutoff(config: SoftDeleteConfig, now: number = Date.now()): Date | null {
+  if (config.retentionDays === null) {
+    return null;
+  }
+  return new Date(now - config.retentionDays * 24 * 60 * 60 * 1000);
+}
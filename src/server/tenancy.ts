@@ -0,0 +1,84 @@
+/**
+ * Multi-tenant helpers for collection endpoints
+ */
+
+import { TenantOptions } from '../shared/types';
+
+/**
+ * Resolved tenant settings for a collection
+ */
+export interface TenantConfig {
+  field: string;
+  resolve: (req: Request) => Promise<string | null>;
+}
+
+/**
+ * Error thrown when a request does not identify its tenant
+ */
+export class MissingTenantError extends Error {
+  constructor(message: string = 'Tenant could not be determined from the request') {
+    super(message);
+    this.name = 'MissingTenantError';
+  }
+}
+
+/**
+ * Get the tenant from the first label of the request's host name
+ *
+ * `acme.example.com` and `acme.localhost` both resolve to `acme`, a bare
+ * `example.com` or `localhost` has no tenant.
+ *
+ * @param req The incoming request
+ * @returns The subdomain, or null if the host has none
+ */
+export function getSubdomain(req: Request): string | null {
+  const host = req.headers.get('Host') || new URL(req.url, 'http://localhost').host;
+  const labels = host.replace(/:\d+$/, '').split('.');
+  const minLabels = labels[labels.length - 1] === 'localhost' ? 2 : 3;
+  return labels.length >= minLabels && labels[0] ? labels[0] : null;
+}
+
+/**
+ * Resolve the `tenant` API option
+ *
+ * A `resolve` function takes precedence over `header`, which takes precedence
+ * over `subdomain`.
+ *
+ * @param option The option passed to createCollectionApi
+ * @returns The resolved settings, or null if tenant scoping is disabled
+ * @throws Error if the option does not say where to find the tenant
+ */
+export function resolveTenantOptions(option: TenantOptions | undefined): TenantConfig | null {
+  if (!option) {
+    return null;
+  }
+
+  const { field = 'tenantId', header, subdomain = false, resolve } = option;
+
+  if (resolve) {
+    return { field, resolve: async req => (await resolve(req)) || null };
+  }
+  if (header) {
+    return { field, resolve: async req => req.headers.get(header) || null };
+  }
+  if (subdomain) {
+    return { field, resolve: async req => getSubdomain(req) };
+  }
+  throw new Error('The tenant option requires a header, subdomain or resolve setting');
+}
+
+/**
+ * Restrict a filter to one tenant's documents
+ *
+ * @param filter The MongoDB filter
+ * @param config The collection's tenant settings
+ * @param tenantId The tenant of the current request
+ * @returns The filter, scoped to the tenant
+ */
+export function scopeToTenant(
+  filter: Record<string, any>,
+  config: TenantConfig | null,
+  tenantId: string | undefined
+): Record<string, any> {
+  return config && tenantId !== undefined ? { ...filter, [config.field]: tenantId } : filter;
+}
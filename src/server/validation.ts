@@ -0,0 +1,112 @@
+/**
+ * Write validation helpers for collection endpoints
+ */
+
+import { z } from 'zod';
+import { ValidationIssue } from '../shared/types';
+import { getSchemaShape } from './query';
+
+/**
+ * A partial update split into MongoDB `$set` and `$unset` operations
+ */
+export interface PatchUpdate {
+  $set: Record<string, unknown>;
+  $unset: Record<string, ''>;
+}
+
+/**
+ * Build the schema used to validate partial updates
+ *
+ * Every field except `id` becomes optional and unknown keys are rejected,
+ * so a patch can neither rename a document nor add fields the schema does
+ * not declare.
+ *
+ * @param schema The collection's Zod schema
+ * @returns A strict, partial object schema
+ */
+export function createPatchSchema(schema: z.ZodTypeAny) {
+  const { id, ...shape } = getSchemaShape(schema);
+  return z.object(shape).partial().strict();
+}
+
+/**
+ * Validate a partial update and translate it into `$set`/`$unset`
+ *
+ * Following JSON Merge Patch, a `null` value removes the field. Removing a
+ * field the schema requires is a validation error.
+ *
+ * @param patchSchema The schema returned by createPatchSchema
+ * @param body The patch body from the request
+ * @param validate Whether to validate the body against the schema
+ * @returns The MongoDB update operations
+ * @throws ZodError if the patch is invalid
+ */
+export function buildPatchUpdate(
+  patchSchema: z.AnyZodObject,
+  body: Record<string, unknown>,
+  validate: boolean
+): PatchUpdate {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+
+  const setValues: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (value === null) {
+      $unset[key] = '';
+    } else {
+      setValues[key] = value;
+    }
+  }
+
+  if (!validate) {
+    // Even unvalidated patches must not change the document id
+    delete setValues.id;
+    delete $unset.id;
+    return { $set: setValues, $unset };
+  }
+
+  const parsed = patchSchema.parse(setValues);
+
+  // Only keep supplied keys so field defaults are not written by a patch
+  for (const key of Object.keys(setValues)) {
+    $set[key] = parsed[key];
+  }
+
+  const issues: z.ZodIssue[] = [];
+  for (const key of Object.keys($unset)) {
+    const fieldSchema = patchSchema.shape[key] as z.ZodOptional<z.ZodTypeAny> | undefined;
+    if (!fieldSchema) {
+      issues.push({
+        code: z.ZodIssueCode.unrecognized_keys,
+        keys: [key],
+        path: [],
+        message: `Unrecognized key in object: '${key}'`,
+      });
+    } else if (!fieldSchema.unwrap().isOptional()) {
+      issues.push({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: 'Required field cannot be removed',
+      });
+    }
+  }
+  if (issues.length > 0) {
+    throw new z.ZodError(issues);
+  }
+
+  return { $set, $unset };
+}
+
+/**
+ * Convert a ZodError into plain, serializable validation issues
+ *
+ * @param error The error thrown by schema validation
+ * @returns One issue per failing field
+ */
+export function formatZodIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({
+    path: issue.path,
+    code: issue.code,
+    message: issue.message,
+  }));
+}
@@ -9,6 +9,7 @@ export interface CollectionOptions {
   refetchOnMount?: boolean;   // Whether to refetch data when component mounts
   refetchOnWindowFocus?: boolean; // Whether to refetch data when window regains focus
   transformResponse?: (data: any) => any; // Custom transform function
+  live?: boolean;             // Apply changes from the collection's change feed as they happen
 }
 
 /**
@@ -22,6 +23,22 @@ export interface CollectionHookResult<T> {
   refetch: () => Promise<void>;
 }
 
+/**
+ * Options for the useCollectionSubscription hook
+ */
+export interface CollectionSubscriptionOptions<T = any> {
+  onChange?: (event: ChangeEvent<T>) => void; // Called for every insert, update and delete
+  onReset?: () => void;       // Called when changes may have been missed and data must be reloaded
+}
+
+/**
+ * Result of the useCollectionSubscription hook
+ */
+export interface CollectionSubscriptionResult {
+  connected: boolean;
+  error: Error | null;        // Set while the connection is lost and being retried
+}
+
 /**
  * Result of the useCollectionQuery hook
  */
@@ -42,20 +59,336 @@ export interface CollectionMutationResult<T> {
   mutate: (body: any) => Promise<T | null>;
 }
 
+/**
+ * Operators that can be used to filter a collection from the request URL
+ */
+export type FilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'in'
+  | 'nin'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'exists'
+  | 'regex';
+
+/**
+ * Cursor pagination options for the createCollectionApi function
+ */
+export interface PaginationOptions {
+  defaultLimit?: number;      // Page size when the request has no limit (default 50)
+  maxLimit?: number;          // Upper bound for the limit param (default 500)
+  sortKey?: string;           // Field pages are ordered by, ties broken by id (default 'id')
+}
+
+/**
+ * Optimistic concurrency options for the createCollectionApi function
+ */
+export interface ConcurrencyOptions {
+  versionField?: string;      // Document field holding the version counter (default '_version')
+}
+
+/**
+ * Soft delete options for the createCollectionApi function
+ */
+export interface SoftDeleteOptions {
+  field?: string;             // Document field holding the deletion date (default 'deletedAt')
+  retentionDays?: number;     // Purge trashed items after this many days (default: keep forever)
+}
+
+/**
+ * Multi-tenant options for the createCollectionApi function
+ */
+export interface TenantOptions {
+  field?: string;             // Document field holding the tenant (default 'tenantId')
+  header?: string;            // Read the tenant from this request header
+  subdomain?: boolean;        // Read the tenant from the first label of the host name
+  resolve?: (req: Request) => string | null | undefined | Promise<string | null | undefined>; // Custom resolver
+}
+
+/**
+ * Change feed options for the createCollectionApi function
+ */
+export interface ChangeFeedOptions {
+  source?: 'auto' | 'changeStream' | 'writes'; // Where events come from (default 'auto')
+  heartbeatInterval?: number; // Milliseconds between heartbeat comments (default 15000)
+  preImages?: boolean;        // Identify deleted items from pre-images, which need MongoDB 6+ (default false)
+}
+
+/**
+ * Options for serverCache.set
+ */
+export interface CacheSetOptions {
+  ttl?: number;               // Time to live in milliseconds (default 5 minutes)
+  staleTtl?: number;          // How long getOrLoad still serves the entry after it expires
+  tags?: string[];            // Tags that invalidateTag can remove the entry by
+}
+
+/**
+ * Options for serverCache.getOrLoad
+ */
+export interface CacheLoadOptions<T = any> extends Omit<CacheSetOptions, 'tags'> {
+  tags?: string[] | ((value: T) => string[]); // May depend on the loaded value
+}
+
+/**
+ * Storage for the responses cached by collection APIs
+ *
+ * Methods may return promises, so stores can be shared between server
+ * instances over the network. serverCache is the default store.
+ */
+export interface CacheStore {
+  get<T = any>(key: string): T | null | Promise<T | null>;
+  set<T = any>(key: string, value: T, options?: CacheSetOptions): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  deleteByPrefix(prefix: string): void | Promise<void>;
+  invalidateTag(tag: string): void | Promise<void>;
+  // Get a value, loading it on a miss; stores without it are read and written around the loader
+  getOrLoad?<T = any>(
+    key: string,
+    loader: () => Promise<T | null>,
+    options?: CacheLoadOptions<T>
+  ): Promise<T | null>;
+}
+
+/**
+ * Sends one command to a Redis server and resolves with its reply
+ *
+ * e.g. `args => client.sendCommand(args)` with node-redis, or
+ * `([name, ...rest]) => redis.call(name, ...rest)` with ioredis.
+ */
+export type RedisCommand = (args: string[]) => Promise<unknown>;
+
+/**
+ * Options for createRedisCacheStore
+ */
+export interface RedisCacheStoreOptions {
+  keyPrefix?: string;         // Prepended to every Redis key (default `collection-hooks:`)
+  defaultTTL?: number;        // Used when set is called without a ttl (default 5 minutes)
+  scanCount?: number;         // Keys requested per SCAN by deleteByPrefix (default 100)
+}
+
+/**
+ * Cache entries removed by a write, for every server instance to remove too
+ */
+export interface CacheInvalidation {
+  tags: string[];             // Passed to invalidateTag
+  keys?: string[];            // Passed to delete
+}
+
+/**
+ * Carries cache invalidations between server instances
+ *
+ * Collection APIs publish the tags they invalidate after every write, and
+ * each instance removes them from its own cache store when they arrive.
+ */
+export interface InvalidationBus {
+  publish(invalidation: CacheInvalidation): void | Promise<void>;
+  // Returns a function that unsubscribes
+  subscribe(listener: (invalidation: CacheInvalidation) => void): () => void;
+}
+
+/**
+ * Options for createMongoInvalidationBus
+ */
+export interface MongoInvalidationBusOptions {
+  collectionName?: string;    // Collection invalidations are written to (default `cache_invalidations`)
+  expireAfterSeconds?: number; // How long they are kept for change streams to resume (default 1 hour)
+}
+
+/**
+ * Options for createPubSubInvalidationBus
+ */
+export interface PubSubInvalidationBusOptions {
+  publish: (channel: string, message: string) => unknown;
+  // Returns a function, or a promise of one, that unsubscribes
+  subscribe: (
+    channel: string,
+    onMessage: (message: string) => void
+  ) => (() => unknown) | Promise<() => unknown>;
+  channel?: string;           // Default `collection-hooks:invalidations`
+}
+
+/**
+ * Limits on the entries kept by serverCache
+ */
+export interface CacheQuota {
+  maxEntries?: number;        // Entries kept before the least recently used are evicted
+  maxBytes?: number;          // Estimated size kept before the least recently used are evicted
+}
+
+/**
+ * Options for serverCache.configure
+ */
+export interface ServerCacheOptions extends CacheQuota {
+  sweepInterval?: number;     // Milliseconds between sweeps of expired entries, 0 to turn off
+  namespaceQuota?: CacheQuota;                // Limits for every namespace
+  namespaceQuotas?: Record<string, CacheQuota>; // Limits for particular namespaces
+  getNamespace?: (key: string) => string;     // Defaults to the key up to its second colon
+}
+
+/**
+ * An index declared for a collection
+ */
+export interface IndexDefinition {
+  fields: Record<string, 1 | -1 | 'text'>; // Indexed fields in order, ascending, descending or text
+  name?: string;              // Defaults to MongoDB's generated name, e.g. 'status_1_createdAt_-1'
+  unique?: boolean;
+  expireAfterSeconds?: number; // TTL: delete documents this long after the date in the field
+  partialFilterExpression?: Record<string, unknown>; // Only index documents matching this filter
+}
+
+/**
+ * Roles allowed to read and write one field
+ */
+export interface FieldPolicy {
+  read?: string[];            // Roles that see the field in responses (default: everyone)
+  write?: string[];           // Roles that may set or remove the field (default: everyone)
+}
+
+/**
+ * Field-level permission options for the createCollectionApi function
+ */
+export interface FieldPermissionOptions {
+  fields: Record<string, FieldPolicy>; // Policies for top-level fields, others are unrestricted
+  roles?: (principal: any, req: Request) => string | string[]; // Default: principal.roles or principal.role
+}
+
+/**
+ * Name of a collection API handler, passed to `authorize` and hooks
+ */
+export type CollectionOperation =
+  | 'getAll'
+  | 'getById'
+  | 'create'
+  | 'update'
+  | 'patch'
+  | 'remove'
+  | 'bulkCreate'
+  | 'bulkUpdate'
+  | 'bulkRemove'
+  | 'listTrash'
+  | 'restore'
+  | 'purge'
+  | 'refreshCache'
+  | 'subscribe'
+  | 'exportAll'
+  | 'importMany';
+
+/**
+ * What the `authorize` option knows about the request
+ */
+export interface AuthorizeContext {
+  id?: string;                // Item ID for single-item operations
+  body?: unknown;             // Parsed request body for writes
+  existing?: Record<string, any> | null; // Stored document for update/patch/remove/restore/purge
+  tenantId?: string;          // Tenant of the request when the `tenant` option is set
+}
+
+/**
+ * Outcome of the `authorize` option
+ *
+ * `true` allows the request and `false` denies it with a 403.
+ */
+export type AuthorizeResult =
+  | boolean
+  | { allow: true; principal?: any }
+  | { allow: false; status?: 401 | 403; error?: string };
+
+/**
+ * Request details passed to every hook
+ */
+export interface HookContext {
+  req: Request;
+  operation: CollectionOperation;
+  id?: string;                // Item ID for single-item operations
+  existing?: Record<string, any> | null; // Stored document for update/patch/remove, null if missing
+  principal?: any;            // Whatever `authorize` attached to the request
+  tenantId?: string;          // Tenant of the request when the `tenant` option is set
+  roles?: string[];           // Caller's roles when `fieldPermissions` is set
+}
+
 /**
  * Options for the createCollectionApi function
  */
 export interface ApiOptions {
   cacheTime?: number;
+  cacheStore?: CacheStore;                      // Defaults to the store set by configureCollectionHooks
+  staleTime?: number;                           // How long expired responses are served while refreshed
+  invalidationBus?: InvalidationBus;            // Defaults to the bus set by configureCollectionHooks
   validateOnWrite?: boolean;
+  filters?: Record<string, FilterOperator[]>; // Filterable fields and their allowed operators
+  pagination?: boolean | PaginationOptions;     // Enable cursor pagination on getAll
+  concurrency?: boolean | ConcurrencyOptions;   // Require If-Match on update/patch/remove
+  softDelete?: boolean | SoftDeleteOptions;     // Move removed items to a trash instead of deleting
+  tenant?: TenantOptions;                       // Scope every request to the caller's tenant
+  fieldPermissions?: FieldPermissionOptions;    // Redact and protect fields by role
+  changeFeed?: ChangeFeedOptions;               // Configure the `subscribe` event stream
+  indexes?: IndexDefinition[];                  // Created by ensureIndexes, along with one on `id`
+  authorize?: (
+    req: Request,
+    operation: CollectionOperation,
+    context: AuthorizeContext
+  ) => AuthorizeResult | Promise<AuthorizeResult>; // Runs before every handler
   hooks?: {
-    beforeRead?: (query: any) => any;
-    afterRead?: (data: any) => any;
-    beforeWrite?: (data: any) => any;
-    afterWrite?: (data: any) => any;
+    beforeRead?: (query: any, context: HookContext) => any | Promise<any>;
+    afterRead?: (data: any, context: HookContext) => any | Promise<any>;
+    beforeWrite?: (data: any, context: HookContext) => any | Promise<any>;
+    afterWrite?: (data: any, context: HookContext) => any | Promise<any>;
+    beforeUpdate?: (data: any, context: HookContext) => any | Promise<any>; // context.existing is the previous document
+    beforeDelete?: (context: HookContext) => void | boolean | Promise<void | boolean>; // Return false to block
+    afterDelete?: (context: HookContext) => void | Promise<void>;
   };
 }
 
+/**
+ * A single validation problem in a request body
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  code: string;
+  message: string;
+}
+
+/**
+ * Outcome of one item in a bulk request
+ */
+export interface BulkItemResult {
+  index: number;              // Position of the item in the request body
+  id?: string;
+  status: 'ok' | 'invalid' | 'forbidden' | 'not_found' | 'error';
+  error?: string;
+  issues?: ValidationIssue[]; // Present when status is 'invalid' or 'forbidden'
+}
+
+/**
+ * Outcome of an `importMany` request
+ */
+export interface ImportSummary {
+  dryRun: boolean;            // Rows were validated but not written
+  total: number;              // Records read from the upload
+  inserted: number;           // Valid rows for items that did not exist
+  updated: number;            // Valid rows that replaced an existing item
+  failed: number;
+  errors: BulkItemResult[];   // The first failed rows, with `index` counting records from 0
+}
+
+/**
+ * Kind of change reported by the `subscribe` event stream
+ */
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * A change to one item, sent as the data of a `subscribe` event
+ */
+export interface ChangeEvent<T = any> {
+  id: string;
+  operation: ChangeOperation;
+  data: T | null;             // The item after the change, null for deletes
+}
+
 /**
  * Result of the createCollectionApi function
  */
@@ -64,6 +397,88 @@ export interface CollectionApi<T> {
   getById: (req: Request, context: { params: { id: string } }) => Promise<Response>;
   create: (req: Request) => Promise<Response>;
   update: (req: Request, context: { params: { id: string } }) => Promise<Response>;
+  patch: (req: Request, context: { params: { id: string } }) => Promise<Response>;
   remove: (req: Request, context: { params: { id: string } }) => Promise<Response>;
+  bulkCreate: (req: Request) => Promise<Response>;
+  bulkUpdate: (req: Request) => Promise<Response>;
+  bulkRemove: (req: Request) => Promise<Response>;
+  listTrash: (req: Request) => Promise<Response>;
+  restore: (req: Request, context: { params: { id: string } }) => Promise<Response>;
+  purge: (req: Request, context: { params: { id: string } }) => Promise<Response>;
   refreshCache: (req: Request) => Promise<Response>;
+  subscribe: (req: Request) => Promise<Response>;
+  exportAll: (req: Request) => Promise<Response>;
+  importMany: (req: Request) => Promise<Response>;
+}
+
+/**
+ * A collection served by createCollectionRouter
+ */
+export interface CollectionRouteDefinition<T = any> extends ApiOptions {
+  schema: z.ZodType<T>;
+  collection?: string;        // MongoDB collection name (default: the route segment)
+}
+
+/**
+ * Route context passed by Next.js to a `[...path]` catch-all route
+ */
+export interface CollectionRouteContext {
+  params: { path?: string[] } | Promise<{ path?: string[] }>;
+}
+
+/**
+ * Result of the createCollectionRouter function
+ */
+export interface CollectionRouter {
+  GET: (req: Request, context: CollectionRouteContext) => Promise<Response>;
+  POST: (req: Request, context: CollectionRouteContext) => Promise<Response>;
+  PUT: (req: Request, context: CollectionRouteContext) => Promise<Response>;
+  PATCH: (req: Request, context: CollectionRouteContext) => Promise<Response>;
+  DELETE: (req: Request, context: CollectionRouteContext) => Promise<Response>;
+}
+
+/**
+ * Options for createPagesApiHandler
+ */
+export interface PagesApiHandlerOptions {
+  param?: string;             // Catch-all query parameter (default: 'path' for `[[...path]].ts`)
+}
+
+/**
+ * Options for generateOpenApiDocument and createOpenApiHandler
+ */
+export interface OpenApiOptions {
+  title?: string;             // Document title (default 'Collection API')
+  version?: string;           // API version (default '1.0.0')
+  description?: string;
+  basePath?: string;          // Path the collections are served under (default '/api')
+}
+
+/**
+ * Options for the ensureIndexes function
+ */
+export interface EnsureIndexesOptions {
+  collections?: string[];     // Only check these collections (default: every collection with an API)
+  dryRun?: boolean;           // Report drift without creating missing indexes
+}
+
+/**
+ * An index whose stored definition differs from its declaration
+ */
+export interface IndexConflict {
+  name: string;               // Name of the declared index
+  declared: IndexDefinition;
+  existing: Record<string, any>; // The index as listed by MongoDB
+}
+
+/**
+ * How a collection's indexes compare to their declarations
+ */
+export interface IndexReport {
+  collection: string;
+  created: string[];          // Missing indexes that were created (or would be, in a dry run)
+  unchanged: string[];        // Indexes that already match their declaration
+  conflicts: IndexConflict[]; // Indexes that differ in name, fields or options, left as they are
+  extra: string[];            // Indexes in MongoDB that are not declared, apart from `_id_`
+  errors: { name: string; error: string }[]; // Indexes MongoDB failed to create
 }
@@ -9,6 +9,7 @@ export interface CollectionOptions {
   refetchOnMount?: boolean;   // Whether to refetch data when component mounts
   refetchOnWindowFocus?: boolean; // Whether to refetch data when window regains focus
   transformResponse?: (data: any) => any; // Custom transform function
+  live?: boolean;             // Apply changes from the collection's change feed as they happen
 }
 
 /**
@@ -22,6 +23,22 @@ export interface CollectionHookResult<T> {
   refetch: () => Promise<void>;
 }
 
+/**
+ * Options for the useCollectionSubscription hook
+ */
+export interface CollectionSubscriptionOptions<T = any> {
+  onChange?: (event: ChangeEvent<T>) => void; // Called for every insert, update and delete
+  onReset?: () => void;       // Called when changes may have been missed and data must be reloaded
+}
+
+/**
+ * Result of the useCollectionSubscription hook
+ */
+export interface CollectionSubscriptionResult {
+  connected: boolean;
+  error: Error | null;        // Set while the connection is lost and being retried
+}
+
 /**
  * Result of the useCollectionQuery hook
  */
@@ -42,6 +59,29 @@ export interface CollectionMutationResult<T> {
   mutate: (body: any) => Promise<T | null>;
 }
 
+/**
+ * A single validation problem in a request body
+ */
+export interface ValidationIssue {
+  path: (string | number)[];
+  code: string;
+  message: string;
+}
+
+/**
+ * Kind of change reported by a collection's change feed
+ */
+export type ChangeOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * A change to one item, sent by a collection's change feed
+ */
+export interface ChangeEvent<T = any> {
+  id: string;
+  operation: ChangeOperation;
+  data: T | null;             // The item after the change, null for deletes
+}
+
 /**
  * Options for the createCollectionApi function
  */